@@ -0,0 +1,103 @@
+// Layout of board backgrounds: template lines and dots, and where the
+// background image goes. Everything is in the surface units of the board
+// rect passed in, so the same layout serves the canvas and exports
+
+import type { BackgroundTemplate } from './board-file'
+import type { Point, Rect } from './geometry'
+
+export const TEMPLATE_COLOR = '#c8d0d8'
+// Distance between template lines, relative to the board width
+const TEMPLATE_SPACING = 1 / 32
+// Finer than this and the template is just a gray haze, so it's left out
+const MIN_TEMPLATE_SPACING = 8
+
+export interface TemplateMarks {
+  lines: Array<[Point, Point]>
+  dots: Point[]
+}
+
+// Template marks covering `area`, lined up with the board so they move with
+// it when panning and zooming. Lines may reach past the area, drawing clips
+// them anyway
+export function getTemplateMarks(template: BackgroundTemplate, board: Rect, area: Rect): TemplateMarks {
+  const marks: TemplateMarks = { lines: [], dots: [] }
+  const spacing = board.width * TEMPLATE_SPACING
+  if (spacing < MIN_TEMPLATE_SPACING) return marks
+
+  const origin = { x: board.x, y: board.y }
+  switch (template) {
+    case 'grid':
+      marks.lines.push(...getLineFamily(origin, 0, spacing, area), ...getLineFamily(origin, 90, spacing, area))
+      break
+
+    case 'lined':
+      marks.lines.push(...getLineFamily(origin, 0, spacing, area))
+      break
+
+    // Three families 60 degrees apart through the same points make
+    // equilateral triangles
+    case 'isometric':
+      marks.lines.push(
+        ...getLineFamily(origin, 90, spacing, area),
+        ...getLineFamily(origin, 30, spacing, area),
+        ...getLineFamily(origin, 150, spacing, area)
+      )
+      break
+
+    case 'dots': {
+      const firstX = origin.x + Math.ceil((area.x - origin.x) / spacing) * spacing
+      const firstY = origin.y + Math.ceil((area.y - origin.y) / spacing) * spacing
+      for (let y = firstY; y <= area.y + area.height; y += spacing) {
+        for (let x = firstX; x <= area.x + area.width; x += spacing) {
+          marks.dots.push({ x, y })
+        }
+      }
+      break
+    }
+  }
+  return marks
+}
+
+// Parallel lines at `angle` degrees, `spacing` apart with one through
+// `origin`, long enough to cross all of `area`
+function getLineFamily(origin: Point, angle: number, spacing: number, area: Rect): Array<[Point, Point]> {
+  const radians = (angle * Math.PI) / 180
+  const direction = { x: Math.cos(radians), y: Math.sin(radians) }
+  const normal = { x: -direction.y, y: direction.x }
+
+  const corners = [
+    { x: area.x, y: area.y },
+    { x: area.x + area.width, y: area.y },
+    { x: area.x, y: area.y + area.height },
+    { x: area.x + area.width, y: area.y + area.height }
+  ].map(corner => ({ x: corner.x - origin.x, y: corner.y - origin.y }))
+  const offsets = corners.map(corner => corner.x * normal.x + corner.y * normal.y)
+  const alongs = corners.map(corner => corner.x * direction.x + corner.y * direction.y)
+  const start = Math.min(...alongs)
+  const end = Math.max(...alongs)
+
+  const lines: Array<[Point, Point]> = []
+  const last = Math.floor(Math.max(...offsets) / spacing)
+  for (let i = Math.ceil(Math.min(...offsets) / spacing); i <= last; i++) {
+    const base = { x: origin.x + normal.x * i * spacing, y: origin.y + normal.y * i * spacing }
+    lines.push([
+      { x: base.x + direction.x * start, y: base.y + direction.y * start },
+      { x: base.x + direction.x * end, y: base.y + direction.y * end }
+    ])
+  }
+  return lines
+}
+
+// Largest rectangle with the image's aspect ratio that fits the board,
+// centered like the board is in its surface
+export function fitImage(imageWidth: number, imageHeight: number, board: Rect): Rect {
+  const scale = Math.min(board.width / imageWidth, board.height / imageHeight)
+  const width = imageWidth * scale
+  const height = imageHeight * scale
+  return {
+    x: board.x + (board.width - width) / 2,
+    y: board.y + (board.height - height) / 2,
+    width,
+    height
+  }
+}
@@ -0,0 +1,59 @@
+// Logical clocks for board operations. Every operation carries a Lamport
+// clock and its author, which together order any two operations the same
+// way on every participant, whatever order they arrived in
+
+export interface Stamp {
+  clock: number
+  userId: string
+}
+
+// Older than anything a participant can send
+export const INITIAL_STAMP: Stamp = { clock: 0, userId: '' }
+
+let clock = 0
+
+// Clock for a new local operation, later than everything seen so far
+export function tickClock(): number {
+  clock++
+  return clock
+}
+
+// Moves our clock up to one seen on a received operation
+export function observeClock(remote: number) {
+  if (Number.isSafeInteger(remote) && remote > clock) {
+    clock = remote
+  }
+}
+
+export function getClock(): number {
+  return clock
+}
+
+// Negative when a comes before b, positive when after, 0 for the same
+// operation. Equal clocks are ordered by author
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock
+  if (a.userId === b.userId) return 0
+  return a.userId < b.userId ? -1 : 1
+}
+
+export function isStamp(value: unknown): value is Stamp {
+  const stamp = value as Stamp
+  return (
+    typeof stamp === 'object' &&
+    stamp !== null &&
+    Number.isSafeInteger(stamp.clock) &&
+    typeof stamp.userId === 'string'
+  )
+}
+
+// Short FNV-1a hash, enough to tell whether two boards differ without
+// sending them
+export function checksum(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
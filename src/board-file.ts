@@ -0,0 +1,287 @@
+// Saved whiteboard files. A file is a single JSON object:
+//
+//   {
+//     "format": "pexip-whiteboard",
+//     "version": 1,
+//     "metadata": {
+//       "savedAt": "2025-01-31T12:00:00.000Z",
+//       "savedBy": "Jane Doe",
+//       "conferenceAlias": "meet.jane",   (optional)
+//       "conferenceName": "Jane's room"   (optional)
+//     },
+//     "background": "white" | "transparent",
+//     "template": "blank" | "grid" | "dots" | "lined" | "isometric",   (optional)
+//     "backgroundImage": "data:image/png;base64,...",                   (optional)
+//     "pages": [{ "id": "default" }, ...],
+//     "activePageId": "default",
+//     "strokes": [ ... ]
+//   }
+//
+// Strokes are stored the way the board keeps them: points in normalized
+// board coordinates (0 to 1 spans the default view, content may go beyond),
+// widths in pixels of a 1280 pixel wide board, and `shape`, `text` and
+// `note` set for shapes, text elements and sticky notes. Strokes without a
+// `pageId` belong to the page with the ID "default". The background image
+// is a PNG or JPEG fitted into the default view.
+//
+// `version` goes up whenever a change would make older plugins misread a
+// file. Files from a newer version are rejected rather than half loaded
+
+export const BOARD_FILE_FORMAT = 'pexip-whiteboard'
+export const BOARD_FILE_VERSION = 1
+
+// Page of strokes saved without a page ID
+const DEFAULT_PAGE_ID = 'default'
+
+// Generous ceilings so a damaged or hostile file can't take the page down.
+// Messages from other participants are held to the same ones
+export const MAX_STROKES = 20000
+export const MAX_POINTS = 20000
+export const MAX_PAGES = 200
+export const MAX_TEXT_LENGTH = 10000
+export const MAX_ID_LENGTH = 200
+const MAX_WIDTH = 1000
+// Content can go beyond the default view, but not this far
+const MAX_COORDINATE = 100000
+
+const SHAPES = ['line', 'arrow', 'rectangle', 'ellipse'] as const
+
+export const BACKGROUND_TEMPLATES = ['blank', 'grid', 'dots', 'lined', 'isometric'] as const
+export type BackgroundTemplate = (typeof BACKGROUND_TEMPLATES)[number]
+// Background images travel to every participant, chunked, so they're kept
+// to a few megabytes of data URL
+export const MAX_BACKGROUND_IMAGE_LENGTH = 3000000
+
+// What the board is drawn on. The image sits over the template, inside the
+// default view
+export interface BoardBackground {
+  isWhite: boolean
+  template: BackgroundTemplate
+  image: string | null
+}
+
+export const DEFAULT_BACKGROUND: BoardBackground = { isWhite: true, template: 'blank', image: null }
+
+export interface SavedPoint {
+  x: number
+  y: number
+  pressure?: number
+}
+
+export interface SavedStroke {
+  id: string
+  shape?: (typeof SHAPES)[number]
+  text?: string
+  note?: boolean
+  pageId?: string
+  points: SavedPoint[]
+  color: string
+  width: number
+  timestamp: number
+  userId: string
+  userName: string
+}
+
+export interface BoardFileMetadata {
+  savedAt: string
+  savedBy: string
+  conferenceAlias?: string
+  conferenceName?: string
+}
+
+export interface BoardFile {
+  format: typeof BOARD_FILE_FORMAT
+  version: number
+  metadata: BoardFileMetadata
+  background: 'white' | 'transparent'
+  template: BackgroundTemplate
+  backgroundImage?: string
+  pages: Array<{ id: string }>
+  activePageId: string
+  strokes: SavedStroke[]
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0
+}
+
+// IDs are generated by the plugin, anything long is made up
+export function isId(value: unknown): value is string {
+  return isNonEmptyString(value) && value.length <= MAX_ID_LENGTH
+}
+
+// Hex colors and simple rgb() or hsl() ones, which is all the plugin
+// produces. Anything else could carry more than a color into a style
+export function isCssColor(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    (/^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value) ||
+      /^(?:rgb|rgba|hsl|hsla)\([0-9., %]{1,40}\)$/i.test(value))
+  )
+}
+
+export function isBackgroundTemplate(value: unknown): value is BackgroundTemplate {
+  return (BACKGROUND_TEMPLATES as readonly unknown[]).includes(value)
+}
+
+// PNG and JPEG data URLs only, those can't carry anything but pixels
+export function isBackgroundImage(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    value.length <= MAX_BACKGROUND_IMAGE_LENGTH &&
+    /^data:image\/(?:png|jpeg);base64,[A-Za-z0-9+/]+={0,2}$/.test(value)
+  )
+}
+
+export function parsePoint(value: unknown): SavedPoint | null {
+  if (!isRecord(value)) return null
+  const { x, y, pressure } = value
+  if (typeof x !== 'number' || typeof y !== 'number' || !Number.isFinite(x) || !Number.isFinite(y)) {
+    return null
+  }
+  if (Math.abs(x) > MAX_COORDINATE || Math.abs(y) > MAX_COORDINATE) return null
+  if (pressure !== undefined && (typeof pressure !== 'number' || !Number.isFinite(pressure))) {
+    return null
+  }
+  return pressure === undefined ? { x, y } : { x, y, pressure }
+}
+
+// Checks a list of points, throws with `label` and what's wrong
+export function parsePoints(value: unknown, label: string): SavedPoint[] {
+  if (!Array.isArray(value) || value.length === 0) throw new Error(`${label} has no points`)
+  if (value.length > MAX_POINTS) throw new Error(`${label} has too many points`)
+
+  const points: SavedPoint[] = []
+  for (const point of value) {
+    const parsed = parsePoint(point)
+    if (!parsed) throw new Error(`${label} has an invalid point`)
+    points.push(parsed)
+  }
+  return points
+}
+
+export function isStrokeWidth(value: unknown): value is number {
+  return typeof value === 'number' && value > 0 && value <= MAX_WIDTH
+}
+
+// Checks one stroke and copies over only the fields we know, so nothing
+// unexpected rides along into the board. Throws with `label` and what's
+// wrong with it
+export function parseStroke(value: unknown, label: string): SavedStroke {
+  const fail = (reason: string): never => {
+    throw new Error(`${label} ${reason}`)
+  }
+
+  if (!isRecord(value)) return fail('is not an object')
+  if (!isId(value.id)) return fail('has no ID')
+  const points = parsePoints(value.points, label)
+  if (!isCssColor(value.color)) return fail('has an invalid color')
+  if (!isStrokeWidth(value.width)) return fail('has an invalid width')
+
+  const stroke: SavedStroke = {
+    id: value.id,
+    points,
+    color: value.color,
+    width: value.width,
+    timestamp: typeof value.timestamp === 'number' && Number.isFinite(value.timestamp) ? value.timestamp : 0,
+    userId: typeof value.userId === 'string' ? value.userId : 'unknown',
+    userName: typeof value.userName === 'string' ? value.userName.slice(0, MAX_TEXT_LENGTH) : 'Unknown User'
+  }
+
+  if (value.shape !== undefined) {
+    if (!(SHAPES as readonly unknown[]).includes(value.shape)) return fail('has an unknown shape')
+    stroke.shape = value.shape as SavedStroke['shape']
+  }
+  if (value.text !== undefined) {
+    if (typeof value.text !== 'string' || value.text.length > MAX_TEXT_LENGTH) return fail('has invalid text')
+    stroke.text = value.text
+  }
+  if (value.note !== undefined) {
+    if (typeof value.note !== 'boolean') return fail('has an invalid note flag')
+    stroke.note = value.note
+  }
+  if (value.pageId !== undefined) {
+    if (!isId(value.pageId)) return fail('has an invalid page')
+    stroke.pageId = value.pageId
+  }
+  return stroke
+}
+
+// Parses and validates a saved board. Throws with a message fit to show
+// the user when the file can't be loaded
+export function parseBoardFile(text: string): BoardFile {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  if (!isRecord(data) || data.format !== BOARD_FILE_FORMAT) {
+    throw new Error('The file is not a saved whiteboard')
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new Error('The file has no valid version')
+  }
+  if (data.version > BOARD_FILE_VERSION) {
+    throw new Error(
+      `The file was saved by a newer version of the whiteboard (format ${data.version}, this one reads up to ${BOARD_FILE_VERSION})`
+    )
+  }
+
+  if (!Array.isArray(data.pages) || data.pages.length === 0 || data.pages.length > MAX_PAGES) {
+    throw new Error('The file has no valid page list')
+  }
+  const pages: Array<{ id: string }> = []
+  for (const page of data.pages) {
+    if (!isRecord(page) || !isId(page.id) || pages.some(other => other.id === page.id)) {
+      throw new Error('The file has an invalid page')
+    }
+    pages.push({ id: page.id })
+  }
+
+  if (!Array.isArray(data.strokes) || data.strokes.length > MAX_STROKES) {
+    throw new Error('The file has no valid stroke list')
+  }
+  const strokes = data.strokes.map((stroke, i) => parseStroke(stroke, `Stroke ${i + 1}`))
+  const pageIds = new Set(pages.map(page => page.id))
+  const strokeIds = new Set<string>()
+  for (const stroke of strokes) {
+    if (strokeIds.has(stroke.id)) {
+      throw new Error(`Stroke ${stroke.id} appears more than once`)
+    }
+    strokeIds.add(stroke.id)
+    if (!pageIds.has(stroke.pageId ?? DEFAULT_PAGE_ID)) {
+      throw new Error(`Stroke ${stroke.id} is on a page the file doesn't have`)
+    }
+  }
+
+  if (data.backgroundImage !== undefined && !isBackgroundImage(data.backgroundImage)) {
+    throw new Error('The file has an invalid background image')
+  }
+
+  const metadata = isRecord(data.metadata) ? data.metadata : {}
+  return {
+    format: BOARD_FILE_FORMAT,
+    version: data.version,
+    metadata: {
+      savedAt: typeof metadata.savedAt === 'string' ? metadata.savedAt : '',
+      savedBy: typeof metadata.savedBy === 'string' ? metadata.savedBy : '',
+      conferenceAlias: typeof metadata.conferenceAlias === 'string' ? metadata.conferenceAlias : undefined,
+      conferenceName: typeof metadata.conferenceName === 'string' ? metadata.conferenceName : undefined
+    },
+    background: data.background === 'transparent' ? 'transparent' : 'white',
+    template: isBackgroundTemplate(data.template) ? data.template : 'blank',
+    backgroundImage: data.backgroundImage,
+    pages,
+    activePageId:
+      typeof data.activePageId === 'string' && pageIds.has(data.activePageId)
+        ? data.activePageId
+        : pages[0].id,
+    strokes
+  }
+}
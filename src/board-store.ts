@@ -0,0 +1,66 @@
+// Copy of the board kept in the browser's IndexedDB, so a reload or crash
+// doesn't lose it. Boards are stored in the saved file format, one per
+// conference alias
+
+import { parseBoardFile, type BoardFile } from './board-file'
+
+const DB_NAME = 'pexip-whiteboard'
+const DB_VERSION = 1
+const STORE_NAME = 'boards'
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (database) return database
+
+  database = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME)
+    }
+    request.onsuccess = () => {
+      resolve(request.result)
+    }
+    request.onerror = () => {
+      reject(request.error)
+    }
+  }).catch((e: unknown) => {
+    // Let the next call try again
+    database = null
+    throw e
+  })
+  return database
+}
+
+function runRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDatabase().then(
+    db =>
+      new Promise<T>((resolve, reject) => {
+        const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+        request.onsuccess = () => {
+          resolve(request.result)
+        }
+        request.onerror = () => {
+          reject(request.error)
+        }
+      })
+  )
+}
+
+export async function saveStoredBoard(key: string, board: BoardFile): Promise<void> {
+  await runRequest('readwrite', store => store.put(JSON.stringify(board), key))
+}
+
+// The stored board for a conference, or null if there is none or it can't
+// be read anymore
+export async function loadStoredBoard(key: string): Promise<BoardFile | null> {
+  const data: unknown = await runRequest('readonly', store => store.get(key))
+  if (typeof data !== 'string') return null
+
+  try {
+    return parseBoardFile(data)
+  } catch (e) {
+    console.error('Ignoring unreadable stored whiteboard:', e)
+    return null
+  }
+}
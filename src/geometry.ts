@@ -0,0 +1,234 @@
+// Plain geometry helpers shared by hit-testing and editing. Points are in
+// whatever space the caller uses, as long as x and y have the same scale
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y)
+}
+
+// Shortest distance from p to the segment between a and b
+export function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  if (lengthSquared === 0) return distance(p, a)
+
+  const t = Math.max(
+    0,
+    Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared)
+  )
+  return distance(p, { x: a.x + t * dx, y: a.y + t * dy })
+}
+
+// Shortest distance from p to an open polyline
+export function distanceToPolyline(p: Point, points: Point[]): number {
+  if (points.length === 0) return Infinity
+  if (points.length === 1) return distance(p, points[0])
+
+  let shortest = Infinity
+  for (let i = 1; i < points.length; i++) {
+    shortest = Math.min(shortest, distanceToSegment(p, points[i - 1], points[i]))
+  }
+  return shortest
+}
+
+// Closed outline of a rectangle given two opposite corners
+export function rectangleOutline(a: Point, b: Point): Point[] {
+  return [
+    { x: a.x, y: a.y },
+    { x: b.x, y: a.y },
+    { x: b.x, y: b.y },
+    { x: a.x, y: b.y },
+    { x: a.x, y: a.y }
+  ]
+}
+
+// Closed outline of the ellipse inscribed in the box given by two opposite
+// corners, approximated with `segments` straight pieces
+export function ellipseOutline(a: Point, b: Point, segments: number = 48): Point[] {
+  const cx = (a.x + b.x) / 2
+  const cy = (a.y + b.y) / 2
+  const rx = Math.abs(b.x - a.x) / 2
+  const ry = Math.abs(b.y - a.y) / 2
+
+  const points: Point[] = []
+  for (let i = 0; i <= segments; i++) {
+    const angle = (i / segments) * Math.PI * 2
+    points.push({ x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) })
+  }
+  return points
+}
+
+export function isPointInRect(p: Point, rect: Rect, margin: number = 0): boolean {
+  return (
+    p.x >= rect.x - margin &&
+    p.x <= rect.x + rect.width + margin &&
+    p.y >= rect.y - margin &&
+    p.y <= rect.y + rect.height + margin
+  )
+}
+
+// Points spaced at most `step` apart along the segment from a to b, so fast
+// pointer moves don't skip over anything
+export function samplesAlong(a: Point, b: Point, step: number): Point[] {
+  const count = Math.max(1, Math.ceil(distance(a, b) / step))
+  const samples: Point[] = []
+  for (let i = 1; i <= count; i++) {
+    const t = i / count
+    samples.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })
+  }
+  return samples
+}
+
+// Even-odd test against a closed polygon, the last point connects back to
+// the first
+export function isPointInPolygon(p: Point, polygon: Point[]): boolean {
+  let isInside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (
+      a.y > p.y !== b.y > p.y &&
+      p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      isInside = !isInside
+    }
+  }
+  return isInside
+}
+
+// Smallest axis-aligned rectangle containing all points
+export function getBounds(points: Point[]): Rect | null {
+  if (points.length === 0) return null
+
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const p of points) {
+    minX = Math.min(minX, p.x)
+    minY = Math.min(minY, p.y)
+    maxX = Math.max(maxX, p.x)
+    maxY = Math.max(maxY, p.y)
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+// Smallest rectangle containing both
+export function unionRects(a: Rect, b: Rect): Rect {
+  const x = Math.min(a.x, b.x)
+  const y = Math.min(a.y, b.y)
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y
+  }
+}
+
+export function doRectsOverlap(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height
+}
+
+// Douglas-Peucker simplification: indices of the points to keep so that no
+// dropped point is further than `tolerance` from the simplified line. The
+// first and last point always stay
+export function simplifyPolyline(points: Point[], tolerance: number): number[] {
+  if (points.length < 3 || tolerance <= 0) return points.map((_, i) => i)
+
+  const keep = new Array<boolean>(points.length).fill(false)
+  keep[0] = true
+  keep[points.length - 1] = true
+
+  // Ranges still to check, a stack rather than recursion so long strokes
+  // can't run out of call stack
+  const ranges: Array<[number, number]> = [[0, points.length - 1]]
+  while (ranges.length > 0) {
+    const range = ranges.pop()
+    if (!range) break
+
+    const [first, last] = range
+    let farthest = -1
+    let farthestDistance = tolerance
+    for (let i = first + 1; i < last; i++) {
+      const d = distanceToSegment(points[i], points[first], points[last])
+      if (d > farthestDistance) {
+        farthest = i
+        farthestDistance = d
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true
+      ranges.push([first, farthest], [farthest, last])
+    }
+  }
+
+  const indices: number[] = []
+  keep.forEach((isKept, i) => {
+    if (isKept) indices.push(i)
+  })
+  return indices
+}
+
+// One piece of a smoothed curve. `index` is the sample the piece belongs to
+export interface CurvePiece {
+  index: number
+  from: Point
+  // Quadratic control point, straight pieces have none
+  control?: Point
+  to: Point
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+}
+
+// A smooth curve through samples: quadratic curves from midpoint to midpoint
+// of neighbouring samples, bending at each sample, and straight at both
+// ends. Pieces depend only on their neighbours, so a growing stroke can be
+// drawn piece by piece
+export function smoothCurve(points: Point[]): CurvePiece[] {
+  const count = points.length
+  if (count < 2) return []
+
+  const pieces: CurvePiece[] = [{ index: 0, from: points[0], to: midpoint(points[0], points[1]) }]
+  for (let i = 1; i < count - 1; i++) {
+    pieces.push({
+      index: i,
+      from: midpoint(points[i - 1], points[i]),
+      control: points[i],
+      to: midpoint(points[i], points[i + 1])
+    })
+  }
+  pieces.push({ index: count - 1, from: midpoint(points[count - 2], points[count - 1]), to: points[count - 1] })
+  return pieces
+}
+
+// Points along a curve piece, without its start, for outputs that only do
+// straight lines
+export function flattenPiece(piece: CurvePiece, steps: number = 8): Point[] {
+  const { from, control, to } = piece
+  if (!control) return [to]
+
+  const points: Point[] = []
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps
+    const u = 1 - t
+    points.push({
+      x: u * u * from.x + 2 * u * t * control.x + t * t * to.x,
+      y: u * u * from.y + 2 * u * t * control.y + t * t * to.y
+    })
+  }
+  return points
+}
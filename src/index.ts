@@ -1,12 +1,81 @@
-import { registerPlugin } from '@pexip/plugin-api'
+import { registerPlugin, type Button, type InfinityParticipant } from '@pexip/plugin-api'
 
+import {
+  distance,
+  distanceToPolyline,
+  ellipseOutline,
+  getBounds,
+  isPointInPolygon,
+  isPointInRect,
+  rectangleOutline,
+  samplesAlong,
+  simplifyPolyline,
+  smoothCurve,
+  flattenPiece,
+  unionRects,
+  doRectsOverlap,
+  type CurvePiece,
+  type Point,
+  type Rect
+} from './geometry'
+import {
+  BACKGROUND_TEMPLATES,
+  BOARD_FILE_FORMAT,
+  BOARD_FILE_VERSION,
+  DEFAULT_BACKGROUND,
+  MAX_BACKGROUND_IMAGE_LENGTH,
+  MAX_PAGES,
+  parseBoardFile,
+  type BackgroundTemplate,
+  type BoardBackground,
+  type BoardFile
+} from './board-file'
+import { fitImage, getTemplateMarks, TEMPLATE_COLOR } from './board-background'
+import { loadStoredBoard, saveStoredBoard } from './board-store'
+import { buildPdf, buildSvg, LINE_HEIGHT, type VectorItem, type VectorPage } from './vector-export'
+import { CHUNK_TYPE, configureOutbox, receiveChunk, sendMessage } from './outbox'
+import { checksum, compareStamps, getClock, INITIAL_STAMP, observeClock, tickClock, type Stamp } from './board-clock'
+import {
+  EDITABLE_FIELDS,
+  MIN_PROTOCOL_VERSION,
+  parseMessage,
+  PROTOCOL_VERSION,
+  type AnnotationLayer,
+  type BoardPage,
+  type BoardPermissions,
+  type BoardSnapshot,
+  type ClearRecord,
+  type HistoryEntry,
+  type PageDeletion,
+  type StrokeChange,
+  type StrokeRecord,
+  type Viewport,
+  type WhiteboardMessage
+} from './messages'
+
+// Points are normalized to the shared board, (0, 0) is the top left and
+// (1, 1) the bottom right corner, whatever the size of the local surface
 interface DrawingPoint {
   x: number
   y: number
   pressure?: number
 }
 
+type ShapeKind = 'line' | 'arrow' | 'rectangle' | 'ellipse'
+
+type Tool = 'pen' | ShapeKind | 'text' | 'note' | 'select' | 'hand'
+
+// A board element. Freehand strokes have any number of points, shapes have
+// exactly two: where the drag started and where it ended. Text and sticky
+// notes have a single point, their top left corner
 interface DrawingStroke {
+  id: string
+  shape?: ShapeKind
+  text?: string
+  // Draws the text on a sticky note in the stroke color
+  note?: boolean
+  // Page the stroke is on, the default page when missing
+  pageId?: string
   points: DrawingPoint[]
   color: string
   width: number
@@ -15,34 +84,380 @@ interface DrawingStroke {
   userName: string
 }
 
+// Area of a drawing surface the board is rendered into, in pixels
+interface BoardRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Strokes of all pages live in `strokes`, each tagged with its page
 interface WhiteboardState {
   strokes: DrawingStroke[]
   isActive: boolean
   currentStroke?: DrawingStroke
+  // Pages in display order
+  pages: BoardPage[]
+  // Page the conference is on, participants following along show this one
+  activePageId: string
+  background: BoardBackground
+  // Annotation layers over shared content, oldest first. The last one is
+  // what everyone annotates
+  layers: AnnotationLayer[]
+}
+
+// When a stroke shows up during replay, in replay milliseconds
+interface ReplayItem {
+  stroke: DrawingStroke
+  start: number
+  duration: number
+}
+
+// Local replay of a page's history, drawn instead of the live board
+interface ReplayState {
+  // Copy of the page taken when the replay started, oldest first
+  strokes: DrawingStroke[]
+  items: ReplayItem[]
+  duration: number
+  time: number
+  speed: number
+  isPlaying: boolean
+  // Only replay this participant's strokes, null for everyone
+  userId: string | null
+  frame: number | null
+  lastFrameAt: number
+}
+
+// A stroke as it was drawn into the stroke cache. Strokes are edited in
+// place, so what decides their look is copied to notice changes
+interface CachedStroke {
+  stroke: DrawingStroke
+  points: DrawingPoint[]
+  pointCount: number
+  color: string
+  width: number
+  text: string | undefined
+  // Author name drawn at the end, null when there's none
+  label: string | null
+  isEditing: boolean
+  // Area it covers on the surface, ink, label and all
+  bounds: Rect | null
+}
+
+// Someone with the whiteboard open, as far as their heartbeats tell
+interface PresenceEntry {
+  lastSeenAt: number
+  lastDrawnAt: number
+  // Where their pointer is, null when it's off the board
+  cursor: DrawingPoint | null
+  pageId: string
 }
 
+// Every participant starts out with the same first page
+const DEFAULT_PAGE_ID = 'default'
+
 let whiteboardState: WhiteboardState = {
   strokes: [],
-  isActive: false
+  isActive: false,
+  pages: [{ id: DEFAULT_PAGE_ID }],
+  activePageId: DEFAULT_PAGE_ID,
+  background: { ...DEFAULT_BACKGROUND },
+  layers: []
 }
 
 let canvas: HTMLCanvasElement | null = null
 let ctx: CanvasRenderingContext2D | null = null
+// Layer above the canvas for strokes still being drawn and the selection
+let liveCanvas: HTMLCanvasElement | null = null
+let liveCtx: CanvasRenderingContext2D | null = null
+// Offscreen bitmap of the finished strokes on the current page, so a change
+// only repaints the strokes around it
+let strokeCache: HTMLCanvasElement | null = null
+let strokeCacheCtx: CanvasRenderingContext2D | null = null
+// What the stroke cache holds in stacking order, and the view it's for
+let cachedStrokes = new Map<string, CachedStroke>()
+let cacheViewKey: string | null = null
+// Size of the overlay in CSS pixels, which all drawing works in. The
+// canvases have `pixelRatio` times as many pixels to stay sharp
+let surfaceWidth: number = 0
+let surfaceHeight: number = 0
+let pixelRatio: number = 1
+let renderFrame: number | null = null
+// The background changed, the whole canvas needs composing again
+let isCanvasStale: boolean = true
+// The live layer needs repainting rather than just the new stroke pieces
+let isLiveStale: boolean = true
+// Stroke pieces for the live layer, from point index on
+const pendingSegments = new Map<DrawingStroke, number>()
+// Remote strokes still being drawn, they stay on the live layer until
+// they're finished
+const liveStrokeIds = new Set<string>()
 let isDrawing = false
 let currentStroke: DrawingStroke | null = null
+let sentPointCount: number = 0
+// Snapshot replies we're about to send, keyed by request ID
+const pendingSnapshotReplies = new Map<string, ReturnType<typeof setTimeout>>()
+let lastSnapshotRequestId: string | null = null
+// Undo and redo only cover what the local user did
+let undoStack: HistoryEntry[] = []
+let redoStack: HistoryEntry[] = []
+// The board as operations left it, `whiteboardState.strokes` is worked out
+// from this
+const strokeRecords = new Map<string, StrokeRecord>()
+const clearRecords = new Map<string, ClearRecord>()
+// The page list of the newest page operation, deleted pages included, and
+// pages it doesn't have because they were added at the same time.
+// `whiteboardState.pages` is what's left of both after deletions
+let pageList: BoardPage[] = [{ id: DEFAULT_PAGE_ID }]
+let unlistedPages: BoardPage[] = []
+const pageDeletions = new Map<string, PageDeletion>()
+let pagesStamp: Stamp = INITIAL_STAMP
+let activePageStamp: Stamp = INITIAL_STAMP
+let backgroundStamp: Stamp = INITIAL_STAMP
+let backgroundImageStamp: Stamp = INITIAL_STAMP
+// Stamp of the stroke being drawn, it joins the board when it's finished
+let currentStrokeStamp: Stamp = INITIAL_STAMP
+// Checksums in a row that didn't match ours, by participant
+const checksumMismatches = new Map<string, number>()
+// Goes up whenever what the checksum covers changes, so the checksum is
+// only worked out again then
+let boardRevision: number = 0
+let boardChecksum: { revision: number; value: string } | null = null
+// Display names from the conference roster, keyed by participant UUID
+const participantNames = new Map<string, string>()
+// Participants with the host (chair) role
+const hostIds = new Set<string>()
+let boardPermissions: BoardPermissions = {
+  isLocked: false,
+  granted: [],
+  revoked: []
+}
+let drawingRightsButton: Button<'participantActions'> | null = null
+let isUpdatingHostControls = false
 let currentUserId: string = ''
+// Conference we're in, for saved board metadata
+let conferenceAlias: string | null = null
+let conferenceName: string | null = null
+// The local copy of the board is only written once the user had the chance
+// to restore the previous one, so it doesn't get overwritten first
+let isPersistenceReady: boolean = false
+// Settles once the board from the others has been merged, or nobody sent
+// one in time. A restore before that would take everything as missing
+let markBoardSynced: () => void = () => {}
+const boardSynced = new Promise<void>(resolve => {
+  markBoardSynced = resolve
+})
+let persistTimer: ReturnType<typeof setTimeout> | null = null
 let currentUserName: string = 'Unknown User'
 let currentColor: string = '#000000'
 let currentWidth: number = 3
 let isEraser: boolean = false
-let isWhiteBackground: boolean = true
+// Partial erasing cuts strokes apart instead of deleting them whole
+let isPartialEraser: boolean = false
+// What the eraser did since the pointer went down, undone as one step
+let eraseGesture: { removedIds: string[]; addedIds: string[]; lastPoint: DrawingPoint } | null = null
+let currentTool: Tool = 'pen'
+// Text field for placing or editing text, and the element being edited
+let textEditor: HTMLTextAreaElement | null = null
+let editingStroke: DrawingStroke | null = null
+// Local view of the infinite board
+let viewport: Viewport = { x: 0, y: 0, zoom: 1 }
+// Broadcasting our viewport, or following whoever does
+let isPresentingViewport: boolean = false
+let isFollowingViewport: boolean = true
+let viewportPresenterId: string | null = null
+// Pan with the hand tool or two fingers, in canvas pixels
+let panDrag: { start: Point; startViewport: Viewport } | null = null
+let pinchGesture: { distance: number; center: Point; startViewport: Viewport } | null = null
+// Fingers on the screen by pointer ID, in client pixels, for two-finger
+// gestures
+const activeTouches = new Map<number, { clientX: number; clientY: number }>()
+// The one pointer that's drawing, panning or erasing right now
+let drawingPointer: { id: number; type: string } | null = null
+// How far simplification may move a finished stroke, in board reference
+// pixels. 0 keeps every sample
+let simplifyTolerance: number = 1
+// Once a stylus shows up, fingers and palms stop drawing
+let isPenOnly: boolean = false
+let hasSeenPen: boolean = false
+let replay: ReplayState | null = null
+// Other participants with the whiteboard open, keyed by participant UUID
+const presence = new Map<string, PresenceEntry>()
+// Last time sending failed was reported, so a dropped connection doesn't
+// bury the user in toasts
+let lastSendFailureToastAt: number = 0
+// Protocol versions other participants read, as announced with their
+// presence or seen on their messages
+const peerProtocols = new Map<string, { minVersion: number; maxVersion: number }>()
+// Participants we can't exchange messages with, warned about once
+const incompatiblePeers = new Set<string>()
+// Page shown locally, and whether it tracks the conference's active page
+let currentPageId: string = DEFAULT_PAGE_ID
+let isFollowingPage: boolean = true
+// Strokes picked with the selection tool
+let selectedIds: string[] = []
+// Selection gesture in progress, points are in reference space
+let selectionDrag: {
+  mode: 'lasso' | 'box' | 'move' | 'scale'
+  start: Point
+  path: Point[]
+  // Stroke points when the drag started, transforms are applied to these
+  originals: Map<string, DrawingPoint[]>
+  // Corner that stays in place while scaling
+  anchor?: Point
+} | null = null
+// The background image decoded for drawing, once it has loaded
+let backgroundImage: HTMLImageElement | null = null
+let backgroundImageSource: string | null = null
+let backgroundImageChecksum: string = ''
+// The background image as JPEG for PDF exports, made when first needed
+let backgroundJpeg: { source: string; data: string } | null = null
+// Whether exports label strokes with their authors, like the overlay does
+let includeAuthorsInExport: boolean = false
 let isPresentationMode: boolean = false
+// Whether content is being shared, from the presentation stream and the
+// roster
+let isPresentationConnected: boolean = false
+let presenterName: string | null = null
+let isPresentationActive: boolean = false
+// Whiteboard page to go back to once the presentation is over
+let whiteboardPageId: string = DEFAULT_PAGE_ID
+// Waits for the shared content to show up on the page
+let presentationObserver: MutationObserver | null = null
+// Last time anyone started an annotation layer, in local time
+let lastLayerAt: number = 0
+let layerTimer: ReturnType<typeof setTimeout> | null = null
+// What each layer annotated, as this browser saw it. Not shared, everyone
+// has the presentation themselves
+const layerFrames = new Map<string, HTMLImageElement>()
+let slideWatchTimer: ReturnType<typeof setInterval> | null = null
+let lastThumbnail: Uint8ClampedArray | null = null
+let isSlideChanging: boolean = false
+// The presentation at the last check where it held still
+let stableFrame: HTMLCanvasElement | null = null
+let thumbnailContext: CanvasRenderingContext2D | null = null
+
+// Every participant sees the board with the same aspect ratio, letterboxed
+// into whatever surface they have
+const BOARD_ASPECT_RATIO = 16 / 9
+// Stroke widths are in pixels of a board this wide and scale with the surface
+const BOARD_REFERENCE_WIDTH = 1280
+
+// Eraser reach around the pointer, in board reference pixels
+const ERASER_RADIUS = 8
+
+// Stroke width scale at no and at full pen pressure, half pressure draws at
+// the chosen width
+const MIN_PRESSURE_SCALE = 0.3
+const MAX_PRESSURE_SCALE = 1.7
+
+// Simplification levels offered in the toolbar, in board reference pixels
+const SIMPLIFY_TOLERANCES = [0, 0.5, 1, 2]
+
+const MIN_ZOOM = 0.1
+const MAX_ZOOM = 10
+// Don't flood the conference while a presenter pans around
+const VIEWPORT_SEND_INTERVAL = 100
+// Cursor updates are throttled to this interval
+const CURSOR_SEND_INTERVAL = 80
+// Failed sends are reported to the user at most this often
+const SEND_FAILURE_TOAST_INTERVAL = 10000
+// Heartbeats keep the presence list fresh, silent participants drop off
+const HEARTBEAT_INTERVAL = 10000
+// Boards are compared this often, a participant whose checksum differs this
+// many times in a row gets asked for their board
+const CHECKSUM_INTERVAL = 15000
+const CHECKSUM_MISMATCH_LIMIT = 2
+const PRESENCE_TIMEOUT = 30000
+// Someone counts as drawing for this long after their last stroke update
+const DRAWING_INDICATOR_TIMEOUT = 2000
+
+// Replay draws freehand strokes at this pace and shortens idle time between
+// strokes to at most REPLAY_MAX_GAP, in milliseconds
+const REPLAY_POINT_DURATION = 16
+const REPLAY_MAX_STROKE_DURATION = 3000
+const REPLAY_MAX_GAP = 1000
+const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8]
+
+// How often at most the board is written to local storage
+const PERSIST_INTERVAL = 1000
+
+// Largest side of an exported image, in pixels
+const MAX_EXPORT_SIZE = 8192
+// Largest side of an uploaded background image, in pixels
+const MAX_BACKGROUND_IMAGE_SIZE = 2048
+
+// Size of the selection resize handles, in surface pixels
+const SELECTION_HANDLE_SIZE = 8
+// Past this many changed spots in a frame, repaint the area around all of
+// them at once instead
+const MAX_DIRTY_REGIONS = 8
+
+// Font size of text elements follows the width, in board reference pixels
+const FONT_SIZE_BASE = 10
+const FONT_SIZE_PER_WIDTH = 3
+const NOTE_PADDING = 10
+const NOTE_MIN_WIDTH = 140
+// Distance from the top of a line of Arial to its baseline, per font size
+const TEXT_ASCENT = 0.9
+
+// Spread replies out so a single participant answers a snapshot request
+const SNAPSHOT_REPLY_MAX_DELAY = 750
+// How long to wait for the board from the others before offering a restore
+// anyway, nobody answering means nobody has a board
+const RESTORE_SYNC_TIMEOUT = 5000
+
+// Slides changes are spotted by comparing small grayscale thumbnails of the
+// presentation this often
+const SLIDE_CHECK_INTERVAL = 1000
+const THUMBNAIL_WIDTH = 32
+const THUMBNAIL_HEIGHT = 18
+// Average change per pixel, out of 255, that counts as a new slide, and
+// below which the picture is holding still again
+const SLIDE_CHANGE_THRESHOLD = 12
+const SLIDE_STILL_THRESHOLD = 3
+// Shared videos change all the time, so layers start at most this often
+const MIN_LAYER_INTERVAL = 5000
+// Everyone notices a new slide at about the same time, spread out who
+// starts its layer so only one does
+const LAYER_START_MAX_DELAY = 500
+// Largest side of a captured presentation frame, in pixels
+const MAX_FRAME_SIZE = 1920
+const MAX_LAYER_FRAMES = 50
+// How long to wait for the shared content to show up after it started
+const PRESENTATION_ATTACH_TIMEOUT = 5000
 
 const plugin = await registerPlugin({
   id: 'whiteboard',
   version: 0
 })
 
+configureOutbox({
+  send: payload => plugin.conference.sendApplicationMessage({ payload: { ...payload, version: getProtocolVersion() } }),
+  onFailure: (type, error) => {
+    console.error(`Error sending ${type}:`, error)
+
+    const now = Date.now()
+    if (now - lastSendFailureToastAt < SEND_FAILURE_TOAST_INTERVAL) return
+    lastSendFailureToastAt = now
+    plugin.ui.showToast({
+      message: "Couldn't send some whiteboard changes, others may not see everything you drew",
+      isInterrupt: true
+    })
+  },
+  // Points drawn in quick succession go out as one message per stroke
+  batched: {
+    'whiteboard-stroke-append': { key: 'strokeId', field: 'points' }
+  },
+  throttled: {
+    'whiteboard-cursor': CURSOR_SEND_INTERVAL,
+    'whiteboard-viewport': VIEWPORT_SEND_INTERVAL
+  },
+  // Base64 chunks fit the size budget exactly, older plugins read raw JSON
+  chunkEncoding: () => (getProtocolVersion() >= 2 ? 'base64' : 'json')
+})
+
 // Whiteboard icon SVG
 const WhiteboardIcon = {
   custom: {
@@ -51,19 +466,70 @@ const WhiteboardIcon = {
   }
 }
 
+// Resolve who we are from the conference, the UUID is the same one other
+// participants see as the sender of our application messages
+plugin.events.me.add(({ participant }) => {
+  currentUserId = participant.uuid
+  currentUserName = getDisplayName(participant)
+  updateParticipantName(participant)
+  updateParticipantRole(participant)
+})
+
+plugin.events.authenticatedWithConference.add((conference) => {
+  conferenceAlias = conference.conferenceAlias
+  conferenceName = conference.conferenceName ?? null
+  void offerRestore()
+})
+
+// Keep names in sync with the roster so renames show up on existing strokes
+plugin.events.participants.add(({ participants }) => {
+  let hasChanged = false
+  for (const participant of participants) {
+    hasChanged = updateParticipantName(participant) || hasChanged
+    updateParticipantRole(participant)
+  }
+  if (hasChanged) {
+    redrawCanvas()
+  }
+
+  const presenter = participants.find(participant => participant.isPresenting)
+  presenterName = presenter ? getDisplayName(presenter) : null
+  updatePresentation()
+})
+
+// Presentations attach the board to the shared content and detach it again
+// when they end
+plugin.events.presentationConnectionStateChange.add(({ send, recv }) => {
+  isPresentationConnected = send === 'connected' || recv === 'connected'
+  updatePresentation()
+})
+
+plugin.events.participantLeft.add(({ participant }) => {
+  peerProtocols.delete(participant.uuid)
+  incompatiblePeers.delete(participant.uuid)
+  if (presence.delete(participant.uuid)) {
+    updatePresencePanel()
+    updateCursors()
+  }
+  // Whatever they were drawing won't get finished
+  for (const id of liveStrokeIds) {
+    if (strokeRecords.get(id)?.stroke.userId === participant.uuid) {
+      liveStrokeIds.delete(id)
+      redrawCanvas()
+    }
+  }
+})
+
+plugin.events.participantJoined.add(({ participant }) => {
+  updateParticipantRole(participant)
+  if (updateParticipantName(participant)) {
+    redrawCanvas()
+  }
+})
+
 // Initialize button for all users (can be restricted to hosts later)
 const initializeButton = async () => {
   // For now, show button to everyone
-  currentUserId = 'user-' + Date.now() // Generate unique user ID
-  
-  // Get current participant info for name
-  try {
-    // Temporary name resolution
-    currentUserName = 'User ' + Math.floor(Math.random() * 1000)
-  } catch (e) {
-    console.log('Could not get current participant name, using default')
-  }
-  
   const button = await plugin.ui.addButton({
     position: 'toolbar',
     tooltip: 'Whiteboard',
@@ -88,20 +554,19 @@ await initializeButton()
 
 async function openWhiteboard() {
   try {
-    // Use current user name for now, will be updated
-    let displayName = currentUserName
-
-    // Send message to all participants that whiteboard is being opened
-    await plugin.conference.sendApplicationMessage({
-      payload: {
+    // Send message to all participants that whiteboard is being opened.
+    // Those who can't draw only open it for themselves
+    if (canDraw(currentUserId)) {
+      sendMessage({
         type: 'whiteboard-open',
         userId: currentUserId,
-        userName: displayName
-      }
-    })
+        userName: currentUserName
+      })
+    }
 
     whiteboardState.isActive = true
     createWhiteboardOverlay()
+    requestSnapshot()
     
     await plugin.ui.showToast({
       message: 'Whiteboard opened - Click and drag to draw. Click Close to exit.',
@@ -114,13 +579,13 @@ async function openWhiteboard() {
 
 async function closeWhiteboard() {
   try {
-    // Send message to all participants that whiteboard is being closed
-    await plugin.conference.sendApplicationMessage({
-      payload: {
+    // Only hosts close the whiteboard for everyone, guests just hide it
+    if (isHost(currentUserId)) {
+      sendMessage({
         type: 'whiteboard-close',
         userId: currentUserId
-      }
-    })
+      })
+    }
 
     whiteboardState.isActive = false
     removeWhiteboardOverlay()
@@ -135,14 +600,13 @@ async function closeWhiteboard() {
 }
 
 function findPresentationContainer() {
-  // Priority order for finding the correct container
+  // The plugin API doesn't say where the shared content is shown, these are
+  // the wrappers the webapp puts it in. Without one the overlay stays on the
+  // main video, which then has the presentation mixed in
   const selectors = [
     'div[data-testid="presentation-video-wrapper"]',
     'div[data-testid="presentation-content"]',
-    'div[data-testid="shared-content"]',
-    '[data-testid*="presentation"]',
-    '[data-testid*="content"]',
-    'div[data-testid="in-meeting-video-wrapper"]'
+    'div[data-testid="shared-content"]'
   ]
   
   for (const selector of selectors) {
@@ -186,8 +650,8 @@ function createWhiteboardOverlay() {
     height: 100%;
     z-index: 1000;
     pointer-events: auto;
-    background: ${isWhiteBackground ? 'white' : 'transparent'};
-    border: ${isWhiteBackground ? '2px solid #ccc' : 'none'};
+    background: ${isBackgroundWhite() ? 'white' : 'transparent'};
+    border: ${isBackgroundWhite() ? '2px solid #ccc' : 'none'};
   `
 
   // Create canvas
@@ -200,43 +664,89 @@ function createWhiteboardOverlay() {
     width: 100%;
     height: 100%;
     cursor: crosshair;
-    background: ${isWhiteBackground ? 'white' : 'transparent'};
+    touch-action: none;
+    background: ${isBackgroundWhite() ? 'white' : 'transparent'};
   `
   
-  // Set canvas size to match container
-  canvas.width = root.clientWidth
-  canvas.height = root.clientHeight
-  
   ctx = canvas.getContext('2d')
-  if (!ctx) {
+
+  // Strokes being drawn go on their own layer, so drawing them doesn't
+  // touch the finished ones underneath
+  liveCanvas = document.createElement('canvas')
+  liveCanvas.id = 'whiteboard-live'
+  liveCanvas.style.cssText = `
+    position: absolute;
+    top: 0;
+    left: 0;
+    width: 100%;
+    height: 100%;
+    pointer-events: none;
+  `
+  liveCtx = liveCanvas.getContext('2d')
+  strokeCache = document.createElement('canvas')
+  strokeCacheCtx = strokeCache.getContext('2d')
+  if (!ctx || !liveCtx || !strokeCacheCtx) {
     throw new Error('Could not get canvas context')
   }
 
-  // Set initial canvas properties
-  ctx.lineCap = 'round'
-  ctx.lineJoin = 'round'
-  ctx.strokeStyle = isEraser ? (isWhiteBackground ? '#ffffff' : '#000000') : currentColor
-  ctx.lineWidth = isEraser ? 10 : currentWidth
-  
-  // Fill background if white mode
-  if (isWhiteBackground) {
-    ctx.fillStyle = '#ffffff'
-    ctx.fillRect(0, 0, canvas.width, canvas.height)
-  }
+  // Set canvas size to match container
+  resizeCanvas(root.clientWidth, root.clientHeight)
 
   container.appendChild(canvas)
+  container.appendChild(liveCanvas)
   root.appendChild(container)
 
-  // Add event listeners
-  canvas.addEventListener('mousedown', startDrawing)
-  canvas.addEventListener('mousemove', draw)
-  canvas.addEventListener('mouseup', stopDrawing)
-  canvas.addEventListener('mouseleave', stopDrawing)
+  // Follow the size of the video wrapper so the board always fills it
+  const resizeObserver = new ResizeObserver(() => {
+    if (!canvas || !root) return
+    if (surfaceWidth === root.clientWidth && surfaceHeight === root.clientHeight) return
+
+    resizeCanvas(root.clientWidth, root.clientHeight)
+  })
+  resizeObserver.observe(root)
+  ;(container as any).resizeObserver = resizeObserver
+
+  // Layer for remote cursors, above the canvas but below the toolbar
+  const cursorLayer = document.createElement('div')
+  cursorLayer.id = 'whiteboard-cursors'
+  cursorLayer.style.cssText = `
+    position: absolute;
+    top: 0;
+    left: 0;
+    width: 100%;
+    height: 100%;
+    z-index: 1000;
+    pointer-events: none;
+    overflow: hidden;
+  `
+  container.appendChild(cursorLayer)
+
+  // Who has the whiteboard open
+  const presencePanel = document.createElement('div')
+  presencePanel.id = 'whiteboard-presence'
+  presencePanel.style.cssText = `
+    position: absolute;
+    bottom: 10px;
+    right: 10px;
+    z-index: 1001;
+    min-width: 140px;
+    max-height: 40%;
+    overflow-y: auto;
+    background: rgba(0, 0, 0, 0.8);
+    color: white;
+    padding: 8px;
+    border-radius: 8px;
+    font: 12px Arial;
+  `
+  container.appendChild(presencePanel)
 
-  // Add touch support for mobile
-  canvas.addEventListener('touchstart', handleTouchStart)
-  canvas.addEventListener('touchmove', handleTouchMove)
-  canvas.addEventListener('touchend', handleTouchEnd)
+  // Mouse, pen and touch all come in as pointer events
+  canvas.addEventListener('pointerdown', handlePointerDown)
+  canvas.addEventListener('pointermove', handlePointerMove)
+  canvas.addEventListener('pointerup', handlePointerUp)
+  canvas.addEventListener('pointercancel', handlePointerUp)
+  canvas.addEventListener('pointerleave', hideCursor)
+  canvas.addEventListener('wheel', handleWheel, { passive: false })
 
   // Create toolbar
   const toolbar = document.createElement('div')
@@ -291,7 +801,7 @@ function createWhiteboardOverlay() {
   // Undo button
   const undoButton = document.createElement('button')
   undoButton.textContent = '↶'
-  undoButton.title = 'Undo Last Stroke'
+  undoButton.title = 'Undo (Ctrl+Z)'
   undoButton.style.cssText = `
     padding: 8px 12px;
     background: rgba(0, 0, 0, 0.7);
@@ -304,11 +814,11 @@ function createWhiteboardOverlay() {
   undoButton.addEventListener('click', undoLastStroke)
   toolbar.appendChild(undoButton)
 
-  // Download button
-  const downloadButton = document.createElement('button')
-  downloadButton.textContent = '💾'
-  downloadButton.title = 'Download Whiteboard'
-  downloadButton.style.cssText = `
+  // Redo button
+  const redoButton = document.createElement('button')
+  redoButton.textContent = '↷'
+  redoButton.title = 'Redo (Ctrl+Shift+Z)'
+  redoButton.style.cssText = `
     padding: 8px 12px;
     background: rgba(0, 0, 0, 0.7);
     color: white;
@@ -317,8 +827,28 @@ function createWhiteboardOverlay() {
     cursor: pointer;
     font-size: 14px;
   `
-  downloadButton.addEventListener('click', copyToClipboard)
-  toolbar.appendChild(downloadButton)
+  redoButton.addEventListener('click', redoLastStroke)
+  toolbar.appendChild(redoButton)
+
+  // Lock button (hosts only)
+  if (isHost(currentUserId)) {
+    const lockButton = document.createElement('button')
+    lockButton.id = 'whiteboard-lock-button'
+    lockButton.style.cssText = `
+      padding: 8px 12px;
+      background: rgba(0, 0, 0, 0.7);
+      color: white;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 14px;
+    `
+    lockButton.addEventListener('click', toggleBoardLock)
+    toolbar.appendChild(lockButton)
+  }
+
+  // Download button with its format chooser
+  toolbar.appendChild(createExportControls())
 
   // Color palette
   const colors = ['#000000', '#ff0000', '#00ff00', '#0000ff', '#ffff00', '#ff00ff', '#00ffff', '#ffa500']
@@ -344,6 +874,7 @@ function createWhiteboardOverlay() {
     colorButton.addEventListener('click', () => {
       currentColor = color
       isEraser = false
+      changeSelection({ color })
       if (ctx) {
         ctx.strokeStyle = color
         ctx.lineWidth = currentWidth
@@ -354,6 +885,98 @@ function createWhiteboardOverlay() {
   })
   toolbar.appendChild(colorContainer)
 
+  // Width selector, also sets the font size of text
+  const widths = [1, 3, 6, 12]
+  const widthContainer = document.createElement('div')
+  widthContainer.style.cssText = `
+    display: flex;
+    gap: 3px;
+    align-items: center;
+  `
+
+  widths.forEach(width => {
+    const widthButton = document.createElement('button')
+    widthButton.style.cssText = `
+      width: 28px;
+      height: 28px;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: ${width === currentWidth ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.7)'};
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      padding: 0;
+    `
+    const dot = document.createElement('span')
+    dot.style.cssText = `
+      width: ${Math.min(width + 2, 14)}px;
+      height: ${Math.min(width + 2, 14)}px;
+      border-radius: 50%;
+      background: white;
+    `
+    widthButton.appendChild(dot)
+    widthButton.title = `Width: ${width}`
+    widthButton.addEventListener('click', () => {
+      currentWidth = width
+      changeSelection({ width })
+      if (ctx && !isEraser) {
+        ctx.lineWidth = width
+      }
+      updateToolbar()
+    })
+    widthContainer.appendChild(widthButton)
+  })
+  toolbar.appendChild(widthContainer)
+
+  // Pen, shape and text tools
+  const tools: Array<{ tool: Tool; icon: string; title: string }> = [
+    { tool: 'hand', icon: '✋', title: 'Pan (scroll to pan, Ctrl+scroll or pinch to zoom)' },
+    { tool: 'select', icon: '⬚', title: 'Select (drag a lasso, Shift+drag for a box, Delete to remove)' },
+    { tool: 'pen', icon: '✏️', title: 'Pen' },
+    { tool: 'line', icon: '╱', title: 'Line' },
+    { tool: 'arrow', icon: '➔', title: 'Arrow' },
+    { tool: 'rectangle', icon: '▭', title: 'Rectangle' },
+    { tool: 'ellipse', icon: '◯', title: 'Ellipse' },
+    { tool: 'text', icon: 'T', title: 'Text (click to place, click text to edit)' },
+    { tool: 'note', icon: '🗒️', title: 'Sticky Note (click to place, click a note to edit)' }
+  ]
+  const toolContainer = document.createElement('div')
+  toolContainer.style.cssText = `
+    display: flex;
+    gap: 3px;
+    align-items: center;
+  `
+
+  tools.forEach(tool => {
+    const toolButton = document.createElement('button')
+    toolButton.textContent = tool.icon
+    toolButton.title = tool.title
+    toolButton.style.cssText = `
+      padding: 8px 12px;
+      background: ${!isEraser && tool.tool === currentTool ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.7)'};
+      color: white;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 14px;
+    `
+    toolButton.addEventListener('click', () => {
+      currentTool = tool.tool
+      isEraser = false
+      if (currentTool !== 'select') {
+        setSelection([])
+      }
+      if (ctx) {
+        ctx.strokeStyle = currentColor
+        ctx.lineWidth = currentWidth
+      }
+      updateToolbar()
+    })
+    toolContainer.appendChild(toolButton)
+  })
+  toolbar.appendChild(toolContainer)
+
   // Eraser button
   const eraserButton = document.createElement('button')
   eraserButton.textContent = '🧽'
@@ -369,19 +992,31 @@ function createWhiteboardOverlay() {
   `
   eraserButton.addEventListener('click', () => {
     isEraser = !isEraser
-    if (ctx) {
-      if (isEraser) {
-        ctx.strokeStyle = isWhiteBackground ? '#ffffff' : '#000000'
-        ctx.lineWidth = 10
-      } else {
-        ctx.strokeStyle = currentColor
-        ctx.lineWidth = currentWidth
-      }
-    }
+    setSelection([])
     updateToolbar()
   })
   toolbar.appendChild(eraserButton)
 
+  // Eraser mode button, whole strokes or just the part under the pointer
+  const eraserModeButton = document.createElement('button')
+  eraserModeButton.textContent = '✂️'
+  eraserModeButton.title = isPartialEraser ? 'Eraser: Partial (cuts strokes)' : 'Eraser: Whole Strokes'
+  eraserModeButton.style.cssText = `
+    padding: 8px 12px;
+    background: ${isPartialEraser ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.7)'};
+    color: white;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+    font-size: 14px;
+  `
+  eraserModeButton.addEventListener('click', () => {
+    isPartialEraser = !isPartialEraser
+    isEraser = true
+    updateToolbar()
+  })
+  toolbar.appendChild(eraserModeButton)
+
   // Mode selector button
   const modeButton = document.createElement('button')
   modeButton.textContent = isPresentationMode ? '📊' : '📝'
@@ -395,25 +1030,24 @@ function createWhiteboardOverlay() {
     cursor: pointer;
     font-size: 14px;
   `
+  // Presentations switch this on their own, the button overrides it until
+  // the next one starts or ends
   modeButton.addEventListener('click', () => {
-    isPresentationMode = !isPresentationMode
-    
-    // Update button appearance
-    modeButton.textContent = isPresentationMode ? '📊' : '📝'
-    modeButton.title = isPresentationMode ? 'Switch to Whiteboard Mode' : 'Switch to Presentation Mode'
-    modeButton.style.background = isPresentationMode ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.7)'
-    
-    // Recreate the overlay to attach to the correct container
-    removeWhiteboardOverlay()
-    createWhiteboardOverlay()
+    setPresentationMode(!isPresentationMode)
+    if (isPresentationMode && !getActiveLayer()) {
+      startLayer()
+    }
   })
   toolbar.appendChild(modeButton)
 
-  // Background toggle button (only for whiteboard mode)
-  const bgToggleButton = document.createElement('button')
-  bgToggleButton.textContent = isWhiteBackground ? '⬜' : '⬛'
-  bgToggleButton.title = isWhiteBackground ? 'Switch to Transparent' : 'Switch to White'
-  bgToggleButton.style.cssText = `
+  // Background menu (only for whiteboard mode)
+  toolbar.appendChild(createBackgroundControls())
+
+  // Pen only button, for stylus users resting their hand on the screen
+  const penOnlyButton = document.createElement('button')
+  penOnlyButton.id = 'whiteboard-pen-only-button'
+  penOnlyButton.textContent = '🖊️'
+  penOnlyButton.style.cssText = `
     padding: 8px 12px;
     background: rgba(0, 0, 0, 0.7);
     color: white;
@@ -422,38 +1056,49 @@ function createWhiteboardOverlay() {
     cursor: pointer;
     font-size: 14px;
   `
-  bgToggleButton.addEventListener('click', () => {
-    if (!isPresentationMode) {
-      isWhiteBackground = !isWhiteBackground
-      
-      // Update button appearance
-      bgToggleButton.textContent = isWhiteBackground ? '⬜' : '⬛'
-      bgToggleButton.title = isWhiteBackground ? 'Switch to Transparent' : 'Switch to White'
-      
-      // Update container background
-      container.style.background = isWhiteBackground ? 'white' : 'transparent'
-      container.style.border = isWhiteBackground ? '2px solid #ccc' : 'none'
-      
-      // Update canvas background
-      canvas!.style.background = isWhiteBackground ? 'white' : 'transparent'
-      
-      // Update canvas context
-      if (ctx) {
-        if (isWhiteBackground) {
-          ctx.fillStyle = '#ffffff'
-          ctx.fillRect(0, 0, canvas!.width, canvas!.height)
-        } else {
-          ctx.clearRect(0, 0, canvas!.width, canvas!.height)
-        }
-        
-        // Update eraser color if active
-        if (isEraser) {
-          ctx.strokeStyle = isWhiteBackground ? '#ffffff' : '#000000'
-        }
-      }
-    }
+  penOnlyButton.addEventListener('click', () => {
+    setPenOnly(!isPenOnly)
+  })
+  toolbar.appendChild(penOnlyButton)
+
+  // Simplification button, cycles through how much finished strokes are tidied up
+  const simplifyButton = document.createElement('button')
+  simplifyButton.id = 'whiteboard-simplify-button'
+  simplifyButton.style.cssText = `
+    padding: 8px 12px;
+    background: rgba(0, 0, 0, 0.7);
+    color: white;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+    font-size: 14px;
+  `
+  simplifyButton.addEventListener('click', () => {
+    const index = SIMPLIFY_TOLERANCES.indexOf(simplifyTolerance)
+    simplifyTolerance = SIMPLIFY_TOLERANCES[(index + 1) % SIMPLIFY_TOLERANCES.length]
+    updateSimplifyButton()
   })
-  toolbar.appendChild(bgToggleButton)
+  toolbar.appendChild(simplifyButton)
+
+  // Replay button
+  const replayButton = document.createElement('button')
+  replayButton.id = 'whiteboard-replay-button'
+  replayButton.textContent = '🎬'
+  replayButton.title = 'Replay This Page'
+  replayButton.style.cssText = `
+    padding: 8px 12px;
+    background: rgba(0, 0, 0, 0.7);
+    color: white;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+    font-size: 14px;
+  `
+  replayButton.addEventListener('click', toggleReplay)
+  toolbar.appendChild(replayButton)
+
+  toolbar.appendChild(isPresentationMode ? createLayerControls() : createPageControls())
+  toolbar.appendChild(createViewportControls())
 
   // Update toolbar function
   const updateToolbar = () => {
@@ -464,8 +1109,24 @@ function createWhiteboardOverlay() {
       ;(btn as HTMLElement).style.border = `2px solid ${color === currentColor ? '#fff' : '#ccc'}`
     })
     
-    // Update eraser button
+    // Update width buttons
+    const widthButtons = widthContainer.querySelectorAll('button')
+    widthButtons.forEach((btn, index) => {
+      const isActive = widths[index] === currentWidth
+      ;(btn as HTMLElement).style.background = isActive ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.7)'
+    })
+
+    // Update tool buttons
+    const toolButtons = toolContainer.querySelectorAll('button')
+    toolButtons.forEach((btn, index) => {
+      const isActive = !isEraser && tools[index].tool === currentTool
+      ;(btn as HTMLElement).style.background = isActive ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.7)'
+    })
+
+    // Update eraser buttons
     eraserButton.style.background = isEraser ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.7)'
+    eraserModeButton.style.background = isPartialEraser ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.7)'
+    eraserModeButton.title = isPartialEraser ? 'Eraser: Partial (cuts strokes)' : 'Eraser: Whole Strokes'
   }
 
   container.appendChild(toolbar)
@@ -473,12 +1134,52 @@ function createWhiteboardOverlay() {
   // Keyboard shortcut (WIP)
   const handleKeyDown = async (e: KeyboardEvent) => {
     if (e.key === 'Escape') {
+      // First let go of the selection, then close
+      if (selectedIds.length > 0) {
+        setSelection([])
+        return
+      }
       await closeWhiteboard()
+      return
+    }
+
+    // Leave undo in text fields (chat etc.) alone
+    const target = e.target as HTMLElement | null
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA'].includes(target.tagName))) return
+
+    if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIds.length > 0) {
+      e.preventDefault()
+      deleteSelection()
+      return
+    }
+
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+      e.preventDefault()
+      if (e.shiftKey) {
+        redoLastStroke()
+      } else {
+        undoLastStroke()
+      }
+    } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+      e.preventDefault()
+      redoLastStroke()
     }
   }
+  // The canvas lives in the parent document, so that's where keys arrive
   document.addEventListener('keydown', handleKeyDown)
+  parent.document.addEventListener('keydown', handleKeyDown)
   ;(container as any).keydownHandler = handleKeyDown
 
+  updatePermissionIndicators()
+  updatePageControls()
+  updateViewportControls()
+  setPenOnly(isPenOnly)
+  updateSimplifyButton()
+  startPresence(container)
+  if (isPresentationMode) {
+    startSlideWatch()
+  }
+
   // Redraw existing strokes
   redrawCanvas()
 }
@@ -490,403 +1191,5135 @@ function removeWhiteboardOverlay() {
     const keydownHandler = (container as any).keydownHandler
     if (keydownHandler) {
       document.removeEventListener('keydown', keydownHandler)
+      parent.document.removeEventListener('keydown', keydownHandler)
     }
+    const resizeObserver = (container as any).resizeObserver as ResizeObserver | undefined
+    resizeObserver?.disconnect()
+    stopPresence(container)
+    activeTouches.clear()
+    drawingPointer = null
+    pinchGesture = null
     container.remove()
   }
+  stopReplay()
+  stopSlideWatch()
+  if (renderFrame !== null) {
+    parent.cancelAnimationFrame(renderFrame)
+    renderFrame = null
+  }
   canvas = null
   ctx = null
+  liveCanvas = null
+  liveCtx = null
+  strokeCache = null
+  strokeCacheCtx = null
+  cachedStrokes = new Map()
+  cacheViewKey = null
+  pendingSegments.clear()
+  textEditor = null
+  editingStroke = null
   isDrawing = false
   currentStroke = null
+  sentPointCount = 0
 }
 
 function startDrawing(e: MouseEvent) {
   if (!canvas || !ctx) return
-  
+
+  // Looking around is fine on a read-only board
+  if (currentTool === 'hand' && !isEraser) {
+    panDrag = { start: toCanvasPoint(e), startViewport: { ...viewport } }
+    return
+  }
+
+  // The replay is only for watching
+  if (replay || !canDraw(currentUserId)) return
+
+  const point = toBoardPoint(e)
+
+  if (currentTool === 'select' && !isEraser) {
+    isDrawing = true
+    startSelectionDrag(toReferencePoint(point), e.shiftKey)
+    return
+  }
+
+  if (isEraser) {
+    isDrawing = true
+    eraseGesture = { removedIds: [], addedIds: [], lastPoint: point }
+    eraseAlong(point, point)
+    return
+  }
+
+  if (currentTool === 'text' || currentTool === 'note') {
+    // Clicking the field itself doesn't get here, clicking elsewhere commits it
+    if (textEditor) {
+      commitTextEditor()
+      return
+    }
+    const existing = findTextAt(e)
+    if (existing) {
+      openTextEditor(existing.points[0], existing)
+    } else {
+      openTextEditor(point)
+    }
+    return
+  }
+
   isDrawing = true
-  const rect = canvas.getBoundingClientRect()
-  const x = e.clientX - rect.left
-  const y = e.clientY - rect.top
+
+  // Shapes are previewed locally and only sent once the drag is done
+  if (isShapeTool(currentTool)) {
+    currentStroke = {
+      id: generateId(),
+      shape: currentTool,
+      pageId: currentPageId,
+      points: [point, { ...point }],
+      color: currentColor,
+      width: currentWidth,
+      timestamp: Date.now(),
+      userId: currentUserId,
+      userName: currentUserName
+    }
+    return
+  }
 
   currentStroke = {
-    points: [{ x, y }],
-    color: isEraser ? (isPresentationMode ? '#000000' : (isWhiteBackground ? '#ffffff' : '#000000')) : currentColor,
-    width: ctx.lineWidth,
+    id: generateId(),
+    pageId: currentPageId,
+    points: [withPressure(point, e)],
+    color: currentColor,
+    width: currentWidth,
     timestamp: Date.now(),
     userId: currentUserId,
     userName: currentUserName
   }
 
-  ctx.beginPath()
-  ctx.moveTo(x, y)
+  // Announce the stroke with its first point, later points are appended by ID
+  currentStrokeStamp = nextStamp()
+  sendStrokeBegin(currentStroke, currentStrokeStamp)
+  sentPointCount = currentStroke.points.length
 }
 
 function draw(e: MouseEvent) {
-  if (!isDrawing || !canvas || !ctx || !currentStroke) return
+  if (panDrag) {
+    const current = toCanvasPoint(e)
+    panTo(panDrag.startViewport, current.x - panDrag.start.x, current.y - panDrag.start.y)
+    return
+  }
+
+  if (isDrawing && eraseGesture) {
+    for (const sample of getPointerSamples(e)) {
+      const point = toBoardPoint(sample)
+      eraseAlong(eraseGesture.lastPoint, point)
+      eraseGesture.lastPoint = point
+    }
+    return
+  }
+
+  if (isDrawing && selectionDrag) {
+    updateSelectionDrag(toReferencePoint(toBoardPoint(e)))
+    return
+  }
 
-  const rect = canvas.getBoundingClientRect()
-  const x = e.clientX - rect.left
-  const y = e.clientY - rect.top
+  if (!isDrawing || !canvas || !ctx || !currentStroke) return
 
-  currentStroke.points.push({ x, y })
+  if (currentStroke.shape) {
+    // Rubber band: move the end point and repaint the preview
+    currentStroke.points[1] = toBoardPoint(e)
+    redrawCanvas()
+    return
+  }
 
-  ctx.lineTo(x, y)
-  ctx.stroke()
+  // Pick up every sample the browser batched into this event
+  const from = currentStroke.points.length - 1
+  for (const sample of getPointerSamples(e)) {
+    currentStroke.points.push(withPressure(toBoardPoint(sample), sample))
+  }
+  drawStrokeSegment(currentStroke, from)
 
-  // Send drawing data to other participants
-  sendDrawingData(currentStroke)
+  // Send only the points the other participants haven't seen yet
+  sendStrokeAppend(currentStroke)
 }
 
 function stopDrawing() {
+  if (panDrag) {
+    panDrag = null
+    return
+  }
+
+  if (isDrawing && selectionDrag) {
+    isDrawing = false
+    finishSelectionDrag()
+    return
+  }
+
+  if (isDrawing && eraseGesture) {
+    isDrawing = false
+    const { removedIds, addedIds } = eraseGesture
+    eraseGesture = null
+    if (removedIds.length > 0 || addedIds.length > 0) {
+      recordHistory({ kind: 'erase', removedIds, addedIds })
+    }
+    return
+  }
+
   if (!isDrawing || !currentStroke) return
 
   isDrawing = false
-  
-  // Add final stroke to state
-  whiteboardState.strokes.push(currentStroke)
+
+  if (currentStroke.shape) {
+    const [start, end] = currentStroke.points
+    if (start.x === end.x && start.y === end.y) {
+      // Just a click, nothing to keep
+      currentStroke = null
+      redrawCanvas()
+      return
+    }
+    currentStrokeStamp = nextStamp()
+    addStrokes([currentStroke], currentStrokeStamp)
+    sendShape(currentStroke, currentStrokeStamp)
+  } else {
+    // Flush anything left over before closing the stroke, the end message
+    // then swaps in the simplified points for everyone
+    sendStrokeAppend(currentStroke)
+    addStrokes([currentStroke], currentStrokeStamp)
+    const kept = simplifyStroke(currentStroke)
+    const stamp = nextStamp()
+    applyStrokeChanges([{ strokeId: currentStroke.id, before: {}, after: { points: currentStroke.points } }], false, stamp)
+    sendStrokeEnd(currentStroke, kept, stamp)
+  }
+
+  rebuildStrokes()
+  recordHistory({ kind: 'stroke', strokeId: currentStroke.id })
   currentStroke = null
+  sentPointCount = 0
+  // Pieces drawn while the stroke grew can differ slightly from the final curve
+  redrawCanvas()
 }
 
-function handleTouchStart(e: TouchEvent) {
-  e.preventDefault()
-  if (!canvas) return
-  
-  const touch = e.touches[0]
-  const mouseEvent = new MouseEvent('mousedown', {
-    clientX: touch.clientX,
-    clientY: touch.clientY
-  })
-  canvas.dispatchEvent(mouseEvent)
-}
+// Throws away the stroke being drawn without a trace in the history. The
+// others already saw a freehand stroke start, so it's undone for them.
+// Other gestures just end
+function cancelStroke() {
+  if (!isDrawing || !currentStroke) {
+    stopDrawing()
+    return
+  }
 
-function handleTouchMove(e: TouchEvent) {
-  e.preventDefault()
-  if (!canvas) return
+  isDrawing = false
+  if (!currentStroke.shape) {
+    sendHistoryEntry('whiteboard-undo', { kind: 'stroke', strokeId: currentStroke.id }, nextStamp())
+  }
+  currentStroke = null
+  sentPointCount = 0
+  redrawCanvas()
+}
+
+// Drops samples that don't change the stroke's shape by more than the
+// tolerance, and digits nobody can see, so the stroke is cheaper to store
+// and send. Returns the indices of the samples it kept
+function simplifyStroke(stroke: DrawingStroke): number[] {
+  const kept = simplifyPolyline(stroke.points.map(toReferencePoint), simplifyTolerance)
+  stroke.points = keepPoints(stroke.points, kept)
+  return kept
+}
+
+// The samples at the kept indices, rounded. Receivers pick the same ones
+// from the samples they were sent, so everyone ends up with the same stroke
+function keepPoints(points: DrawingPoint[], kept: number[]): DrawingPoint[] {
+  const round = (value: number) => Math.round(value * 100000) / 100000
+  return kept.map(index => {
+    const point = points[index]
+    const simplified: DrawingPoint = { x: round(point.x), y: round(point.y) }
+    if (point.pressure !== undefined) {
+      simplified.pressure = round(point.pressure)
+    }
+    return simplified
+  })
+}
+
+// Kept indices from another participant have to rise and stay within the
+// samples that arrived here, otherwise the stroke stays as it is
+function pickKeptPoints(points: DrawingPoint[], kept: number[]): DrawingPoint[] {
+  const isValid = kept.every((index, i) => index < points.length && (i === 0 || index > kept[i - 1]))
+  return isValid ? keepPoints(points, kept) : []
+}
+
+function updateSimplifyButton() {
+  const simplifyButton = parent.document.getElementById('whiteboard-simplify-button')
+  if (!simplifyButton) return
+
+  const level = SIMPLIFY_TOLERANCES.indexOf(simplifyTolerance)
+  simplifyButton.textContent = `〰️${level}`
+  simplifyButton.title =
+    simplifyTolerance === 0
+      ? 'Stroke Simplification: off'
+      : `Stroke Simplification: level ${level} (up to ${simplifyTolerance}px)`
+}
+
+// Board points in a space where x and y have the same scale, for hit-testing
+function toReferencePoint(point: DrawingPoint): Point {
+  return {
+    x: point.x * BOARD_REFERENCE_WIDTH,
+    y: (point.y * BOARD_REFERENCE_WIDTH) / BOARD_ASPECT_RATIO
+  }
+}
+
+function getReferenceRect(): BoardRect {
+  return {
+    x: 0,
+    y: 0,
+    width: BOARD_REFERENCE_WIDTH,
+    height: BOARD_REFERENCE_WIDTH / BOARD_ASPECT_RATIO
+  }
+}
+
+// The lines a stroke is drawn with, in reference space
+function getStrokeOutline(stroke: DrawingStroke): Point[] {
+  const points = stroke.points.map(toReferencePoint)
+  if (!stroke.shape || points.length < 2) return points
+
+  const start = points[0]
+  const end = points[points.length - 1]
+  switch (stroke.shape) {
+    case 'rectangle':
+      return rectangleOutline(start, end)
+    case 'ellipse':
+      return ellipseOutline(start, end)
+    default:
+      return [start, end]
+  }
+}
+
+function isStrokeHit(stroke: DrawingStroke, point: Point, radius: number): boolean {
+  if (stroke.points.length === 0) return false
+
+  if (stroke.text !== undefined) {
+    if (!ctx) return false
+    return isPointInRect(point, measureText(ctx, stroke, getReferenceRect()), radius)
+  }
+
+  return distanceToPolyline(point, getStrokeOutline(stroke)) <= radius + stroke.width / 2
+}
+
+// Cuts the points within reach of the eraser out of a freehand stroke,
+// returning the pieces that are left
+function splitStroke(stroke: DrawingStroke, point: Point, radius: number): DrawingStroke[] {
+  const pieces: DrawingStroke[] = []
+  let run: DrawingPoint[] = []
+
+  const flush = () => {
+    // A lone point would only leave a dot behind
+    if (run.length > 1) {
+      pieces.push({ ...stroke, id: generateId(), points: run })
+    }
+    run = []
+  }
+
+  for (const strokePoint of stroke.points) {
+    if (distance(toReferencePoint(strokePoint), point) <= radius + stroke.width / 2) {
+      flush()
+    } else {
+      run.push(strokePoint)
+    }
+  }
+  flush()
+  return pieces
+}
+
+// Erases everything the eraser touches on its way from one point to the next
+function eraseAlong(from: DrawingPoint, to: DrawingPoint) {
+  if (!eraseGesture) return
+
+  const stamp = nextStamp()
+  const removedIds: string[] = []
+  const added: DrawingStroke[] = []
+
+  const start = toReferencePoint(from)
+  const samples = [start, ...samplesAlong(start, toReferencePoint(to), ERASER_RADIUS)]
+  for (const sample of samples) {
+    for (const stroke of getPageStrokes()) {
+      if (removedIds.includes(stroke.id) || !isStrokeHit(stroke, sample, ERASER_RADIUS)) continue
+
+      removedIds.push(stroke.id)
+      // Shapes and text can't be cut, they always go as a whole
+      if (isPartialEraser && !stroke.shape && stroke.text === undefined) {
+        const pieces = splitStroke(stroke, sample, ERASER_RADIUS)
+        added.push(...pieces)
+      }
+    }
+    // Pieces left by this sample can be hit by the next one
+    applyErase(removedIds, added, stamp)
+  }
+
+  if (removedIds.length === 0) return
+
+  // Pieces cut and erased again within the gesture never need to come back
+  const createdIds = new Set(added.map(stroke => stroke.id))
+  const erasedIds = removedIds.filter(id => !createdIds.has(id))
+  const remaining = added.filter(stroke => !removedIds.includes(stroke.id))
+  for (const id of erasedIds) {
+    const index = eraseGesture.addedIds.indexOf(id)
+    if (index === -1) {
+      eraseGesture.removedIds.push(id)
+    } else {
+      eraseGesture.addedIds.splice(index, 1)
+    }
+  }
+  eraseGesture.addedIds.push(...remaining.map(stroke => stroke.id))
+
+  sendMessage({
+    type: 'whiteboard-erase',
+    removedIds: erasedIds,
+    added: remaining,
+    clock: stamp.clock,
+    userId: currentUserId
+  })
+}
+
+// Takes erased strokes off the board and puts the pieces left in their place
+function applyErase(removedIds: string[], added: DrawingStroke[], stamp: Stamp) {
+  addStrokes(added, stamp)
+  setStrokesPresent(removedIds, false, stamp)
+  rebuildStrokes()
+  redrawCanvas()
+}
+
+function fromReferencePoint(point: Point): DrawingPoint {
+  return {
+    x: point.x / BOARD_REFERENCE_WIDTH,
+    y: (point.y * BOARD_ASPECT_RATIO) / BOARD_REFERENCE_WIDTH
+  }
+}
+
+// Area a stroke covers in reference space, including text boxes
+function getStrokeBounds(stroke: DrawingStroke): Rect | null {
+  if (stroke.text !== undefined) {
+    return ctx && stroke.points.length > 0 ? measureText(ctx, stroke, getReferenceRect()) : null
+  }
+
+  const bounds = getBounds(getStrokeOutline(stroke))
+  if (!bounds) return null
+
+  // Account for the line width so thin handles don't sit on top of the ink
+  const margin = stroke.width / 2
+  return {
+    x: bounds.x - margin,
+    y: bounds.y - margin,
+    width: bounds.width + margin * 2,
+    height: bounds.height + margin * 2
+  }
+}
+
+function getSelectedStrokes(): DrawingStroke[] {
+  return getPageStrokes().filter(stroke => selectedIds.includes(stroke.id))
+}
+
+function getSelectionBounds(): Rect | null {
+  const corners: Point[] = []
+  for (const stroke of getSelectedStrokes()) {
+    const bounds = getStrokeBounds(stroke)
+    if (bounds) {
+      corners.push(
+        { x: bounds.x, y: bounds.y },
+        { x: bounds.x + bounds.width, y: bounds.y + bounds.height }
+      )
+    }
+  }
+  return getBounds(corners)
+}
+
+// Selection handle size converted to reference space
+function getHandleSize(): number {
+  if (!canvas) return SELECTION_HANDLE_SIZE
+  const rect = getViewRect(surfaceWidth, surfaceHeight)
+  return (SELECTION_HANDLE_SIZE * BOARD_REFERENCE_WIDTH) / rect.width
+}
+
+function getSelectionCorners(bounds: Rect): Point[] {
+  return [
+    { x: bounds.x, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+    { x: bounds.x, y: bounds.y + bounds.height }
+  ]
+}
+
+function setSelection(ids: string[]) {
+  selectedIds = ids
+  redrawCanvas()
+}
+
+function startSelectionDrag(point: Point, isBox: boolean) {
+  const bounds = getSelectionBounds()
+  const originals = new Map<string, DrawingPoint[]>()
+
+  if (bounds && canDraw(currentUserId)) {
+    getSelectedStrokes().forEach(stroke => originals.set(stroke.id, stroke.points))
+
+    // Grabbing a corner handle scales from the opposite corner
+    const corners = getSelectionCorners(bounds)
+    const handleIndex = corners.findIndex(corner => distance(corner, point) <= getHandleSize())
+    if (handleIndex !== -1) {
+      selectionDrag = {
+        mode: 'scale',
+        start: point,
+        path: [],
+        originals,
+        anchor: corners[(handleIndex + 2) % 4]
+      }
+      return
+    }
+
+    if (isPointInRect(point, bounds)) {
+      selectionDrag = { mode: 'move', start: point, path: [], originals }
+      return
+    }
+  }
+
+  selectionDrag = { mode: isBox ? 'box' : 'lasso', start: point, path: [point], originals }
+  setSelection([])
+}
+
+function updateSelectionDrag(point: Point) {
+  if (!selectionDrag) return
+
+  switch (selectionDrag.mode) {
+    case 'lasso':
+      selectionDrag.path.push(point)
+      break
+
+    case 'box':
+      selectionDrag.path = rectangleOutline(selectionDrag.start, point)
+      break
+
+    case 'move': {
+      const dx = point.x - selectionDrag.start.x
+      const dy = point.y - selectionDrag.start.y
+      transformSelection(p => ({ x: p.x + dx, y: p.y + dy }))
+      break
+    }
+
+    case 'scale': {
+      const anchor = selectionDrag.anchor!
+      const start = selectionDrag.start
+      // Scale each axis on its own, a flat selection stays flat
+      const sx = Math.abs(start.x - anchor.x) > 0.001 ? (point.x - anchor.x) / (start.x - anchor.x) : 1
+      const sy = Math.abs(start.y - anchor.y) > 0.001 ? (point.y - anchor.y) / (start.y - anchor.y) : 1
+      transformSelection(p => ({
+        x: anchor.x + (p.x - anchor.x) * sx,
+        y: anchor.y + (p.y - anchor.y) * sy
+      }))
+      break
+    }
+  }
+
+  redrawCanvas()
+}
+
+// Replaces the points of selected strokes with transformed copies of where
+// they were when the drag started
+function transformSelection(transform: (point: Point) => Point) {
+  if (!selectionDrag) return
+
+  for (const stroke of getSelectedStrokes()) {
+    const originals = selectionDrag.originals.get(stroke.id)
+    if (!originals) continue
+
+    stroke.points = originals.map(original => ({
+      ...original,
+      ...fromReferencePoint(transform(toReferencePoint(original)))
+    }))
+  }
+  boardRevision++
+}
+
+function finishSelectionDrag() {
+  const drag = selectionDrag
+  selectionDrag = null
+  if (!drag) return
+
+  if (drag.mode === 'lasso' || drag.mode === 'box') {
+    if (drag.path.length < 3) {
+      redrawCanvas()
+      return
+    }
+
+    // Select what lies entirely within the lasso or box
+    const ids = getPageStrokes()
+      .filter(stroke => {
+        const bounds = getStrokeBounds(stroke)
+        const outline =
+          stroke.text !== undefined && bounds ? getSelectionCorners(bounds) : getStrokeOutline(stroke)
+        return outline.length > 0 && outline.every(point => isPointInPolygon(point, drag.path))
+      })
+      .map(stroke => stroke.id)
+    setSelection(ids)
+    return
+  }
+
+  // Moves and scales become one edit for everyone
+  const changes: StrokeChange[] = []
+  for (const stroke of getSelectedStrokes()) {
+    const before = drag.originals.get(stroke.id)
+    if (before && before !== stroke.points) {
+      changes.push({ strokeId: stroke.id, before: { points: before }, after: { points: stroke.points } })
+    }
+  }
+  if (changes.length === 0) return
+
+  const stamp = nextStamp()
+  applyStrokeChanges(changes, false, stamp)
+  recordHistory({ kind: 'edit', changes })
+  sendStrokeChanges(changes, stamp)
+}
+
+// Recolors or resizes the selection
+function changeSelection(patch: Pick<Partial<DrawingStroke>, 'color' | 'width'>) {
+  if (selectedIds.length === 0 || !canDraw(currentUserId)) return
+
+  const changes: StrokeChange[] = getSelectedStrokes().map(stroke => ({
+    strokeId: stroke.id,
+    before: { color: stroke.color, width: stroke.width },
+    after: { color: patch.color ?? stroke.color, width: patch.width ?? stroke.width }
+  }))
+  const stamp = nextStamp()
+  applyStrokeChanges(changes, false, stamp)
+  recordHistory({ kind: 'edit', changes })
+  sendStrokeChanges(changes, stamp)
+}
+
+function deleteSelection() {
+  if (selectedIds.length === 0 || !canDraw(currentUserId)) return
+
+  const removedIds = getSelectedStrokes().map(stroke => stroke.id)
+  selectedIds = []
+  const stamp = nextStamp()
+  applyErase(removedIds, [], stamp)
+  recordHistory({ kind: 'erase', removedIds, addedIds: [] })
+
+  sendMessage({
+    type: 'whiteboard-erase',
+    removedIds,
+    added: [],
+    clock: stamp.clock,
+    userId: currentUserId
+  })
+}
+
+// Dashed outline of the lasso or the selection, with resize handles
+function drawSelection(target: CanvasRenderingContext2D, rect: BoardRect) {
+  const toSurface = (point: Point) => toSurfacePoint(fromReferencePoint(point), rect)
+
+  target.save()
+  target.strokeStyle = '#1e90ff'
+  target.lineWidth = 1
+  target.setLineDash([6, 4])
+
+  if (selectionDrag && (selectionDrag.mode === 'lasso' || selectionDrag.mode === 'box')) {
+    target.beginPath()
+    selectionDrag.path.map(toSurface).forEach((point, index) => {
+      if (index === 0) {
+        target.moveTo(point.x, point.y)
+      } else {
+        target.lineTo(point.x, point.y)
+      }
+    })
+    target.closePath()
+    target.stroke()
+  }
+
+  const bounds = getSelectionBounds()
+  if (bounds) {
+    const corners = getSelectionCorners(bounds).map(toSurface)
+    target.strokeRect(corners[0].x, corners[0].y, corners[2].x - corners[0].x, corners[2].y - corners[0].y)
+
+    target.setLineDash([])
+    target.fillStyle = '#ffffff'
+    for (const corner of corners) {
+      const half = SELECTION_HANDLE_SIZE / 2
+      target.fillRect(corner.x - half, corner.y - half, SELECTION_HANDLE_SIZE, SELECTION_HANDLE_SIZE)
+      target.strokeRect(corner.x - half, corner.y - half, SELECTION_HANDLE_SIZE, SELECTION_HANDLE_SIZE)
+    }
+  }
+  target.restore()
+}
+
+// Opens a text field at a board point, either for a new text element or
+// to edit an existing one
+function openTextEditor(point: DrawingPoint, existing?: DrawingStroke) {
+  if (!canvas) return
+
+  const container = parent.document.getElementById('whiteboard-container')
+  if (!container) return
+
+  const isNote = existing ? existing.note === true : currentTool === 'note'
+  const width = existing ? existing.width : currentWidth
+  const color = existing ? existing.color : currentColor
+  const rect = getViewRect(surfaceWidth, surfaceHeight)
+  const scale = rect.width / BOARD_REFERENCE_WIDTH
+  const position = toSurfacePoint(point, rect)
+  const fontSize = getFontSize(width) * scale
+  const padding = isNote ? NOTE_PADDING * scale : 0
+
+  editingStroke = existing ?? null
+  textEditor = document.createElement('textarea')
+  textEditor.value = existing?.text ?? ''
+  textEditor.placeholder = isNote ? 'Note' : 'Text'
+  textEditor.style.cssText = `
+    position: absolute;
+    left: ${position.x}px;
+    top: ${position.y}px;
+    z-index: 1002;
+    min-width: ${isNote ? NOTE_MIN_WIDTH * scale : 120}px;
+    min-height: ${fontSize * 1.25 + padding * 2}px;
+    padding: ${padding}px;
+    margin: 0;
+    font: ${fontSize}px Arial;
+    line-height: 1.25;
+    color: ${isNote ? '#000000' : color};
+    background: ${isNote ? color : 'rgba(255, 255, 255, 0.8)'};
+    border: 1px dashed #888;
+    outline: none;
+    resize: both;
+    box-sizing: border-box;
+  `
+
+  // Enter places the text, Shift+Enter adds a line, Escape cancels
+  textEditor.addEventListener('keydown', e => {
+    e.stopPropagation()
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      commitTextEditor()
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      closeTextEditor()
+    }
+  })
+  textEditor.addEventListener('blur', () => {
+    commitTextEditor()
+  })
+
+  // Remember what the new element will look like, the toolbar may change meanwhile
+  ;(textEditor as any).draft = { point, note: isNote, color, width }
+  container.appendChild(textEditor)
+  textEditor.focus()
+
+  // Hide the element being edited while its text field is open
+  redrawCanvas()
+}
+
+function closeTextEditor() {
+  const editor = textEditor
+  textEditor = null
+  editingStroke = null
+  editor?.remove()
+  redrawCanvas()
+}
+
+function commitTextEditor() {
+  if (!textEditor) return
+
+  const text = textEditor.value.replace(/\s+$/, '')
+  const draft = (textEditor as any).draft as Pick<DrawingStroke, 'note' | 'color' | 'width'> & {
+    point: DrawingPoint
+  }
+  const existing = editingStroke
+  closeTextEditor()
+
+  if (existing) {
+    // Empty or unchanged edits leave the element as it was
+    if (!text || text === existing.text || !findStroke(existing.id)) return
+
+    const change: StrokeChange = {
+      strokeId: existing.id,
+      before: { text: existing.text },
+      after: { text }
+    }
+    const stamp = nextStamp()
+    applyStrokeChanges([change], false, stamp)
+    recordHistory({ kind: 'edit', changes: [change] })
+    sendStrokeChanges([change], stamp)
+    return
+  }
+
+  if (!text || !canDraw(currentUserId)) return
+
+  const stroke: DrawingStroke = {
+    id: generateId(),
+    text,
+    note: draft.note,
+    pageId: currentPageId,
+    points: [draft.point],
+    color: draft.color,
+    width: draft.width,
+    timestamp: Date.now(),
+    userId: currentUserId,
+    userName: currentUserName
+  }
+  const stamp = nextStamp()
+  addStrokes([stroke], stamp)
+  rebuildStrokes()
+  recordHistory({ kind: 'stroke', strokeId: stroke.id })
+  redrawCanvas()
+
+  sendMessage({
+    type: 'whiteboard-text',
+    stroke,
+    clock: stamp.clock,
+    userId: currentUserId,
+    userName: currentUserName
+  })
+}
+
+// Topmost text element under the pointer
+function findTextAt(e: MouseEvent): DrawingStroke | undefined {
+  if (!canvas || !ctx) return undefined
+
+  const { x, y } = toCanvasPoint(e)
+  const rect = getViewRect(surfaceWidth, surfaceHeight)
+
+  const strokes = getPageStrokes()
+  for (let i = strokes.length - 1; i >= 0; i--) {
+    const stroke = strokes[i]
+    if (stroke.text === undefined) continue
+
+    const box = measureText(ctx, stroke, rect)
+    if (x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height) {
+      return stroke
+    }
+  }
+  return undefined
+}
+
+// Sets the edited fields, unless a later operation already changed them
+function applyStrokeChanges(changes: StrokeChange[], isUndo: boolean, stamp: Stamp) {
+  for (const change of changes) {
+    const record = strokeRecords.get(change.strokeId)
+    if (!record) continue
+
+    // Copy so later edits can't reach into the history
+    const fields = structuredClone(isUndo ? change.before : change.after) as Record<string, unknown>
+    for (const [field, value] of Object.entries(fields)) {
+      if (!EDITABLE_FIELDS.includes(field)) continue
+
+      const current = record.fieldStamps[field] ?? record.dataStamp
+      if (compareStamps(stamp, current) > 0) {
+        ;(record.stroke as unknown as Record<string, unknown>)[field] = value
+        record.fieldStamps[field] = stamp
+      }
+    }
+  }
+  boardRevision++
+  redrawCanvas()
+}
+
+function sendStrokeChanges(changes: StrokeChange[], stamp: Stamp) {
+  sendMessage({
+    type: 'whiteboard-edit',
+    changes,
+    clock: stamp.clock,
+    userId: currentUserId
+  })
+}
+
+
+function handlePointerDown(e: PointerEvent) {
+  if (!canvas) return
+
+  if (e.pointerType === 'pen' && !hasSeenPen) {
+    hasSeenPen = true
+    setPenOnly(true)
+    plugin.ui.showToast({
+      message: 'Stylus detected, fingers won\'t draw anymore. Tap 🖊️ to change that',
+      isInterrupt: true
+    })
+  }
+
+  if (e.pointerType === 'touch') {
+    // A palm resting on the screen while the pen draws
+    if (drawingPointer?.type === 'pen') return
+
+    activeTouches.set(e.pointerId, { clientX: e.clientX, clientY: e.clientY })
+
+    // Two fingers pan and zoom, whatever tool is selected
+    if (activeTouches.size === 2) {
+      // Drop the stroke the first finger started
+      if (drawingPointer?.type === 'touch') {
+        drawingPointer = null
+        cancelStroke()
+      }
+      startPinch()
+      return
+    }
+    if (pinchGesture || activeTouches.size > 2) return
+
+    // With a stylus around, a single finger can still move the board
+    if (isPenOnly && !(currentTool === 'hand' && !isEraser)) return
+  }
+
+  // One pointer at a time draws
+  if (drawingPointer) return
+
+  drawingPointer = { id: e.pointerId, type: e.pointerType }
+  // No emulated mousedown, it would take the focus from a text field that
+  // just opened
+  e.preventDefault()
+  // Keep getting moves when the pointer leaves the canvas mid-stroke
+  canvas.setPointerCapture(e.pointerId)
+  startDrawing(e)
+}
+
+function handlePointerMove(e: PointerEvent) {
+  if (activeTouches.has(e.pointerId)) {
+    activeTouches.set(e.pointerId, { clientX: e.clientX, clientY: e.clientY })
+    if (pinchGesture) {
+      if (activeTouches.size === 2) {
+        updatePinch()
+      }
+      return
+    }
+  }
+
+  sendCursor(e)
+  if (drawingPointer?.id === e.pointerId) {
+    draw(e)
+  }
+}
+
+function handlePointerUp(e: PointerEvent) {
+  activeTouches.delete(e.pointerId)
+
+  if (pinchGesture) {
+    // Wait until every finger is up before drawing again
+    if (activeTouches.size === 0) {
+      pinchGesture = null
+    }
+    return
+  }
+
+  if (drawingPointer?.id !== e.pointerId) return
+
+  drawingPointer = null
+  stopDrawing()
+}
+
+function setPenOnly(isOn: boolean) {
+  isPenOnly = isOn
+
+  const penOnlyButton = parent.document.getElementById('whiteboard-pen-only-button')
+  if (penOnlyButton) {
+    penOnlyButton.style.background = isPenOnly ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.7)'
+    penOnlyButton.title = isPenOnly ? 'Pen Only: fingers pan and zoom' : 'Pen Only: off, fingers draw'
+  }
+}
+
+// Every sample since the last event, browsers batch pointer moves up per
+// frame and fast strokes would look angular otherwise
+function getPointerSamples(e: MouseEvent): MouseEvent[] {
+  const samples = 'getCoalescedEvents' in e ? (e as PointerEvent).getCoalescedEvents() : []
+  return samples.length > 0 ? samples : [e]
+}
+
+// Records how hard a pen pressed. Mice and fingers don't report anything
+// useful, their strokes keep the plain width
+function withPressure(point: DrawingPoint, e: MouseEvent): DrawingPoint {
+  const pointerEvent = e as PointerEvent
+  if (pointerEvent.pointerType === 'pen') {
+    point.pressure = pointerEvent.pressure
+  }
+  return point
+}
+
+// Width scale for a point drawn with the given pressure
+function getPressureScale(point: DrawingPoint): number {
+  if (point.pressure === undefined) return 1
+
+  const pressure = Math.max(0, Math.min(1, point.pressure))
+  return MIN_PRESSURE_SCALE + (MAX_PRESSURE_SCALE - MIN_PRESSURE_SCALE) * pressure
+}
+
+function hasPressure(stroke: DrawingStroke): boolean {
+  return stroke.points.some(point => point.pressure !== undefined)
+}
+
+function getTouchCenter(): { center: Point; distance: number } {
+  const [a, b] = [...activeTouches.values()].map(toCanvasPoint)
+  return {
+    center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+    distance: Math.max(1, distance(a, b))
+  }
+}
+
+function startPinch() {
+  const { center, distance } = getTouchCenter()
+  pinchGesture = { center, distance, startViewport: { ...viewport } }
+}
+
+function updatePinch() {
+  if (!pinchGesture) return
+
+  const { center, distance } = getTouchCenter()
+  const start = pinchGesture.startViewport
+  // Zoom around where the fingers started, then follow their movement
+  viewport = start
+  zoomAt(pinchGesture.center, start.zoom * (distance / pinchGesture.distance))
+  panTo(viewport, center.x - pinchGesture.center.x, center.y - pinchGesture.center.y)
+}
+
+// Scrolling pans, Ctrl+scroll (and trackpad pinch) zooms around the pointer
+function handleWheel(e: WheelEvent) {
+  e.preventDefault()
+
+  if (e.ctrlKey || e.metaKey) {
+    zoomAt(toCanvasPoint(e), viewport.zoom * Math.exp(-e.deltaY / 300))
+  } else {
+    panTo(viewport, -e.deltaX, -e.deltaY)
+  }
+}
+
+// Pointer position on the drawing surface
+function toCanvasPoint(e: { clientX: number; clientY: number }): Point {
+  if (!canvas) return { x: 0, y: 0 }
+
+  const bounds = canvas.getBoundingClientRect()
+  return {
+    x: (e.clientX - bounds.left) * (bounds.width > 0 ? surfaceWidth / bounds.width : 1),
+    y: (e.clientY - bounds.top) * (bounds.height > 0 ? surfaceHeight / bounds.height : 1)
+  }
+}
+
+// Moves the view by a distance in canvas pixels from a starting viewport
+function panTo(from: Viewport, dx: number, dy: number) {
+  if (!canvas) return
+
+  const rect = getBoardRect(surfaceWidth, surfaceHeight)
+  setViewport({
+    x: from.x - dx / (rect.width * from.zoom),
+    y: from.y - dy / (rect.height * from.zoom),
+    zoom: from.zoom
+  })
+}
+
+// Zooms keeping the board point under `center` (canvas pixels) in place
+function zoomAt(center: Point, zoom: number) {
+  if (!canvas) return
+
+  const rect = getBoardRect(surfaceWidth, surfaceHeight)
+  const view = getViewRect(surfaceWidth, surfaceHeight)
+  const boardX = (center.x - view.x) / view.width
+  const boardY = (center.y - view.y) / view.height
+  const newZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+
+  setViewport({
+    x: boardX - (center.x - rect.x) / (rect.width * newZoom),
+    y: boardY - (center.y - rect.y) / (rect.height * newZoom),
+    zoom: newZoom
+  })
+}
+
+// Fits everything on the current page into view, or the default view when
+// the page is empty
+function zoomToFit() {
+  const bounds = getContentBounds(currentPageId)
+  if (!bounds) {
+    setViewport({ x: 0, y: 0, zoom: 1 })
+    return
+  }
+
+  // Leave a little room around the edges
+  const padding = 0.05
+  const zoom = Math.min(
+    MAX_ZOOM,
+    Math.max(MIN_ZOOM, 1 / Math.max(bounds.width + padding * 2, bounds.height + padding * 2))
+  )
+  setViewport({
+    x: bounds.x + bounds.width / 2 - 0.5 / zoom,
+    y: bounds.y + bounds.height / 2 - 0.5 / zoom,
+    zoom
+  })
+}
+
+function setViewport(next: Viewport) {
+  viewport = next
+
+  // Looking around on our own breaks away from the presenter
+  if (isFollowingViewport && viewportPresenterId && !isPresentingViewport) {
+    isFollowingViewport = false
+    updateViewportControls()
+  }
+
+  if (isPresentingViewport) {
+    sendViewport()
+  }
+  redrawCanvas()
+}
+
+function sendViewport() {
+  sendMessage({
+    type: 'whiteboard-viewport',
+    viewport,
+    isPresenting: isPresentingViewport,
+    userId: currentUserId
+  })
+}
+
+function togglePresentViewport() {
+  isPresentingViewport = !isPresentingViewport
+  if (isPresentingViewport) {
+    viewportPresenterId = currentUserId
+  } else if (viewportPresenterId === currentUserId) {
+    viewportPresenterId = null
+  }
+  sendViewport()
+  updateViewportControls()
+
+  plugin.ui.showToast({
+    message: isPresentingViewport ? 'Others following along now see your view' : 'Stopped sharing your view',
+    isInterrupt: true
+  })
+}
+
+function toggleFollowViewport() {
+  isFollowingViewport = !isFollowingViewport
+  updateViewportControls()
+}
+
+function receiveViewport(next: Viewport, isPresenting: boolean, userId: string) {
+  if (!isPresenting) {
+    if (viewportPresenterId === userId) {
+      viewportPresenterId = null
+    }
+    return
+  }
+
+  // Someone else took over presenting
+  if (isPresentingViewport) {
+    isPresentingViewport = false
+  }
+  viewportPresenterId = userId
+  updateViewportControls()
+
+  if (!isFollowingViewport) return
+  if (![next?.x, next?.y, next?.zoom].every(Number.isFinite)) return
+
+  viewport = {
+    x: next.x,
+    y: next.y,
+    zoom: Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, next.zoom))
+  }
+  redrawCanvas()
+}
+
+function createViewportControls(): HTMLElement {
+  const viewportContainer = document.createElement('div')
+  viewportContainer.style.cssText = `
+    display: flex;
+    gap: 3px;
+    align-items: center;
+  `
+
+  const controls: Array<{ icon: string; title: string; onClick: () => void; id?: string }> = [
+    {
+      icon: '−',
+      title: 'Zoom Out',
+      onClick: () => {
+        if (canvas) zoomAt({ x: surfaceWidth / 2, y: surfaceHeight / 2 }, viewport.zoom / 1.25)
+      }
+    },
+    {
+      icon: '+',
+      title: 'Zoom In',
+      onClick: () => {
+        if (canvas) zoomAt({ x: surfaceWidth / 2, y: surfaceHeight / 2 }, viewport.zoom * 1.25)
+      }
+    },
+    { icon: '⤢', title: 'Zoom to Fit', onClick: zoomToFit },
+    { icon: '📡', title: '', onClick: togglePresentViewport, id: 'whiteboard-present-button' },
+    { icon: '👁', title: '', onClick: toggleFollowViewport, id: 'whiteboard-follow-view-button' }
+  ]
+
+  controls.forEach(control => {
+    const button = document.createElement('button')
+    button.textContent = control.icon
+    button.title = control.title
+    if (control.id) {
+      button.id = control.id
+    }
+    button.style.cssText = `
+      padding: 8px 10px;
+      background: rgba(0, 0, 0, 0.7);
+      color: white;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 14px;
+    `
+    button.addEventListener('click', control.onClick)
+    viewportContainer.appendChild(button)
+  })
+
+  return viewportContainer
+}
+
+function updateViewportControls() {
+  const presentButton = parent.document.getElementById('whiteboard-present-button')
+  if (presentButton) {
+    presentButton.title = isPresentingViewport ? 'Stop Sharing Your View' : 'Share Your View (others can follow)'
+    presentButton.style.background = isPresentingViewport ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.7)'
+  }
+
+  const followButton = parent.document.getElementById('whiteboard-follow-view-button')
+  if (followButton) {
+    followButton.title = isFollowingViewport ? 'Following the Presenter\'s View (click to explore on your own)' : 'Exploring on Your Own (click to follow the presenter)'
+    followButton.style.background = isFollowingViewport ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.7)'
+  }
+}
+
+function generateId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  // Fallback for non-secure contexts where randomUUID is unavailable
+  return `${currentUserId}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+function sendStrokeBegin(stroke: DrawingStroke, stamp: Stamp) {
+  sendMessage({
+    type: 'whiteboard-stroke-begin',
+    stroke: stroke,
+    clock: stamp.clock,
+    userId: currentUserId,
+    userName: currentUserName
+  })
+}
+
+function sendStrokeAppend(stroke: DrawingStroke) {
+  if (stroke.points.length <= sentPointCount) return
+
+  const points = stroke.points.slice(sentPointCount)
+  sentPointCount = stroke.points.length
+
+  sendMessage({
+    type: 'whiteboard-stroke-append',
+    strokeId: stroke.id,
+    points: points,
+    userId: currentUserId
+  })
+}
+
+function sendShape(stroke: DrawingStroke, stamp: Stamp) {
+  sendMessage({
+    type: 'whiteboard-shape',
+    stroke: stroke,
+    clock: stamp.clock,
+    userId: currentUserId,
+    userName: currentUserName
+  })
+}
+
+// The others already have every sample from the appends, from version 2
+// on they only learn which ones were kept
+function sendStrokeEnd(stroke: DrawingStroke, kept: number[], stamp: Stamp) {
+  sendMessage({
+    type: 'whiteboard-stroke-end',
+    strokeId: stroke.id,
+    ...(getProtocolVersion() >= 2 ? { kept } : { points: stroke.points }),
+    clock: stamp.clock,
+    userId: currentUserId
+  })
+}
+
+function clearCanvas() {
+  if (!canvas || !ctx) return
+
+  if (!isHost(currentUserId)) {
+    plugin.ui.showToast({
+      message: 'Only hosts can clear the whiteboard',
+      isInterrupt: true
+    })
+    return
+  }
+
+  const clearId = generateId()
+  const stamp = nextStamp()
+  clearStrokes(clearId, currentPageId, stamp)
+  recordHistory({ kind: 'clear', clearId })
+
+  // Send clear message to other participants
+  sendMessage({
+    type: 'whiteboard-clear',
+    clearId,
+    pageId: currentPageId,
+    clock: stamp.clock,
+    userId: currentUserId
+  })
+}
+
+function undoLastStroke() {
+  if (!canvas || !ctx || !canDraw(currentUserId)) return
+
+  const entry = undoStack.pop()
+  if (!entry || !canApplyHistory(entry, true, currentUserId)) return
+
+  const stamp = nextStamp()
+  applyHistoryEntry(entry, true, stamp)
+  redoStack.push(entry)
+  sendHistoryEntry('whiteboard-undo', entry, stamp)
+}
+
+function redoLastStroke() {
+  if (!canvas || !ctx || !canDraw(currentUserId)) return
+
+  const entry = redoStack.pop()
+  if (!entry || !canApplyHistory(entry, false, currentUserId)) return
+
+  const stamp = nextStamp()
+  applyHistoryEntry(entry, false, stamp)
+  undoStack.push(entry)
+  sendHistoryEntry('whiteboard-redo', entry, stamp)
+}
+
+// Clears are for hosts only, and so is taking one back or redoing it.
+// Everyone else only takes back or redoes their own strokes. An entry left
+// in the history of someone who's no longer allowed is dropped. Deleting a
+// drawn page again only does something for hosts, which the local user is
+// told instead
+function canApplyHistory(entry: HistoryEntry, isUndo: boolean, userId: string): boolean {
+  if (isHost(userId)) return true
+
+  let message: string | null = null
+  if (entry.kind === 'clear') {
+    message = 'Only hosts can undo or redo a clear'
+  } else if (getHistoryStrokeIds(entry).some(id => strokeRecords.get(id)?.stroke.userId !== userId)) {
+    message = "Only hosts can undo or redo changes to other people's drawings"
+  } else if (entry.kind === 'page' && !isUndo && userId === currentUserId && isPageDrawn(entry.pageId)) {
+    message = 'Only hosts can delete pages with drawings on them'
+  }
+  if (message && userId === currentUserId) {
+    plugin.ui.showToast({
+      message,
+      isInterrupt: true
+    })
+  }
+  return message === null
+}
+
+// The strokes an entry takes back or redoes
+function getHistoryStrokeIds(entry: HistoryEntry): string[] {
+  switch (entry.kind) {
+    case 'stroke':
+      return [entry.strokeId]
+    case 'erase':
+      return [...entry.removedIds, ...entry.addedIds]
+    case 'edit':
+      return entry.changes.map(change => change.strokeId)
+    default:
+      return []
+  }
+}
+
+// A new action invalidates whatever could have been redone
+function recordHistory(entry: HistoryEntry) {
+  undoStack.push(entry)
+  redoStack = []
+}
+
+function sendHistoryEntry(type: 'whiteboard-undo' | 'whiteboard-redo', entry: HistoryEntry, stamp: Stamp) {
+  sendMessage({
+    type,
+    entry,
+    clock: stamp.clock,
+    userId: currentUserId
+  })
+}
+
+// Undoes or redoes an entry locally, used for both own and remote history.
+// Undo is an operation of its own, with a stamp later than what it undoes
+function applyHistoryEntry(entry: HistoryEntry, isUndo: boolean, stamp: Stamp) {
+  if (entry.kind === 'edit') {
+    applyStrokeChanges(entry.changes, isUndo, stamp)
+    return
+  }
+
+  // A deleted page kept its place in the list and its strokes, undoing
+  // the deletion brings it back as it was
+  if (entry.kind === 'page') {
+    setPageDeleted(entry.pageId, !isUndo, stamp)
+    return
+  }
+
+  if (entry.kind === 'stroke') {
+    setStrokesPresent([entry.strokeId], !isUndo, stamp)
+  } else if (entry.kind === 'erase') {
+    // Undo brings back what was erased and drops the pieces left behind
+    setStrokesPresent(isUndo ? entry.addedIds : entry.removedIds, false, stamp)
+    setStrokesPresent(isUndo ? entry.removedIds : entry.addedIds, true, stamp)
+  } else {
+    const clear = clearRecords.get(entry.clearId)
+    if (clear && compareStamps(stamp, clear.activeStamp) > 0) {
+      clear.isActive = !isUndo
+      clear.activeStamp = stamp
+    }
+  }
+
+  rebuildStrokes()
+  redrawCanvas()
+}
+
+// Clears a single page, the other pages keep their strokes. Strokes added
+// after the clear stay, even when they arrive before it
+function clearStrokes(clearId: string, pageId: string | null, stamp: Stamp) {
+  if (!clearRecords.has(clearId)) {
+    clearRecords.set(clearId, { id: clearId, pageId, stamp, isActive: true, activeStamp: stamp })
+  }
+  rebuildStrokes()
+  redrawCanvas()
+}
+
+// Stamp for an operation of the local user, sent along as `clock`
+function nextStamp(): Stamp {
+  return { clock: tickClock(), userId: currentUserId }
+}
+
+// Stamp of a received operation. The author is whoever sent it
+function getMessageStamp(message: { clock: number }, userId: string): Stamp {
+  observeClock(message.clock)
+  return { clock: message.clock, userId }
+}
+
+// Adds new strokes to what the board knows. Strokes we know already keep
+// their data, the stamp only decides whether they're on the board
+function addStrokes(strokes: DrawingStroke[], stamp: Stamp) {
+  for (const stroke of strokes) {
+    if (!strokeRecords.has(stroke.id)) {
+      strokeRecords.set(stroke.id, {
+        stroke,
+        isPresent: true,
+        presenceStamp: stamp,
+        dataStamp: stamp,
+        fieldStamps: {}
+      })
+    }
+  }
+  setStrokesPresent(strokes.map(stroke => stroke.id), true, stamp)
+}
+
+// Adds or removes strokes as of `stamp`. An add and a remove with the same
+// stamp leave the stroke removed
+function setStrokesPresent(ids: string[], isPresent: boolean, stamp: Stamp) {
+  for (const id of ids) {
+    const record = strokeRecords.get(id)
+    if (!record) continue
+
+    const order = compareStamps(stamp, record.presenceStamp)
+    if (order > 0 || (order === 0 && !isPresent)) {
+      record.isPresent = isPresent
+      record.presenceStamp = stamp
+    }
+  }
+}
+
+// Works out which strokes are on the board, and in which order, from the
+// records alone, so it doesn't matter in what order operations arrived
+function rebuildStrokes() {
+  // A stroke that arrives late can bring back a page someone deleted
+  const pages = getVisiblePages()
+  const hasPageCountChanged = pages.length !== whiteboardState.pages.length
+  whiteboardState.pages = pages
+  if (hasPageCountChanged) {
+    updatePageControls()
+  }
+
+  const pageIds = new Set([...whiteboardState.pages, ...whiteboardState.layers].map(page => page.id))
+  const clears = [...clearRecords.values()].filter(clear => clear.isActive)
+
+  boardRevision++
+  whiteboardState.strokes = [...strokeRecords.values()]
+    .filter(record => {
+      const pageId = getPageId(record.stroke)
+      return (
+        record.isPresent &&
+        pageIds.has(pageId) &&
+        !clears.some(
+          clear =>
+            (clear.pageId === null || clear.pageId === pageId) &&
+            compareStamps(record.presenceStamp, clear.stamp) < 0
+        )
+      )
+    })
+    .map(record => record.stroke)
+    .sort(compareStrokes)
+}
+
+// Stacking order: oldest at the bottom, ties broken by ID
+function compareStrokes(a: DrawingStroke, b: DrawingStroke): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp
+  if (a.id === b.id) return 0
+  return a.id < b.id ? -1 : 1
+}
+
+function copyToClipboard() {
+  if (findLayer(currentPageId)) {
+    exportLayers([currentPageId])
+  } else {
+    exportPages([currentPageId])
+  }
+}
+
+function createExportControls(): HTMLElement {
+  const exportContainer = document.createElement('div')
+  exportContainer.style.cssText = `
+    position: relative;
+    display: flex;
+  `
+
+  const downloadButton = document.createElement('button')
+  downloadButton.textContent = '💾'
+  downloadButton.title = 'Download Whiteboard'
+  downloadButton.style.cssText = `
+    padding: 8px 12px;
+    background: rgba(0, 0, 0, 0.7);
+    color: white;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+    font-size: 14px;
+  `
+  exportContainer.appendChild(downloadButton)
+
+  const menu = document.createElement('div')
+  menu.style.cssText = `
+    position: absolute;
+    top: 100%;
+    left: 0;
+    margin-top: 4px;
+    display: none;
+    flex-direction: column;
+    gap: 3px;
+    min-width: 170px;
+    background: rgba(0, 0, 0, 0.9);
+    padding: 6px;
+    border-radius: 6px;
+  `
+  exportContainer.appendChild(menu)
+
+  downloadButton.addEventListener('click', () => {
+    menu.style.display = menu.style.display === 'none' ? 'flex' : 'none'
+  })
+
+  const formats: Array<{ label: string; onClick: () => void }> = [
+    { label: 'PNG (this page)', onClick: copyToClipboard },
+    { label: 'SVG (this page)', onClick: exportSvg },
+    {
+      label: 'PDF (all pages)',
+      onClick: () => {
+        exportPdf(whiteboardState.pages.map(page => page.id))
+      }
+    }
+  ]
+
+  formats.push({ label: 'Save board (JSON)', onClick: saveBoardFile })
+  // Loading replaces the board for everyone, like clearing it does
+  if (isHost(currentUserId)) {
+    formats.push({ label: 'Load board…', onClick: openBoardFile })
+  }
+
+  formats.forEach(({ label, onClick }) => {
+    const button = document.createElement('button')
+    button.textContent = label
+    button.style.cssText = `
+      padding: 6px 10px;
+      background: rgba(255, 255, 255, 0.1);
+      color: white;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 13px;
+      text-align: left;
+    `
+    button.addEventListener('click', () => {
+      menu.style.display = 'none'
+      onClick()
+    })
+    menu.appendChild(button)
+  })
+
+  const authorsLabel = document.createElement('label')
+  authorsLabel.style.cssText = `
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    padding: 4px 2px 0;
+    color: white;
+    font: 12px Arial;
+    cursor: pointer;
+  `
+  const authorsCheckbox = document.createElement('input')
+  authorsCheckbox.type = 'checkbox'
+  authorsCheckbox.checked = includeAuthorsInExport
+  authorsCheckbox.addEventListener('change', () => {
+    includeAuthorsInExport = authorsCheckbox.checked
+  })
+  authorsLabel.appendChild(authorsCheckbox)
+  authorsLabel.appendChild(document.createTextNode('Include author names'))
+  menu.appendChild(authorsLabel)
+
+  return exportContainer
+}
+
+function createBackgroundControls(): HTMLElement {
+  const backgroundContainer = document.createElement('div')
+  backgroundContainer.style.cssText = `
+    position: relative;
+    display: flex;
+  `
+
+  const backgroundButton = document.createElement('button')
+  backgroundButton.id = 'whiteboard-background-button'
+  backgroundButton.textContent = whiteboardState.background.isWhite ? '⬜' : '⬛'
+  backgroundButton.title = 'Background'
+  backgroundButton.style.cssText = `
+    padding: 8px 12px;
+    background: rgba(0, 0, 0, 0.7);
+    color: white;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+    font-size: 14px;
+  `
+  backgroundContainer.appendChild(backgroundButton)
+
+  const menu = document.createElement('div')
+  menu.style.cssText = `
+    position: absolute;
+    top: 100%;
+    left: 0;
+    margin-top: 4px;
+    display: none;
+    flex-direction: column;
+    gap: 3px;
+    min-width: 170px;
+    background: rgba(0, 0, 0, 0.9);
+    padding: 6px;
+    border-radius: 6px;
+  `
+  backgroundContainer.appendChild(menu)
+
+  const templateLabels: Record<BackgroundTemplate, string> = {
+    blank: 'Blank',
+    grid: 'Grid',
+    dots: 'Dots',
+    lined: 'Lined',
+    isometric: 'Isometric'
+  }
+
+  // Built on every open so the checkmarks follow changes from others
+  const fillMenu = () => {
+    const { background } = whiteboardState
+    const options: Array<{ label: string; onClick: () => void }> = [
+      {
+        label: background.isWhite ? 'Transparent' : 'White',
+        onClick: () => {
+          changeBackground({ isWhite: !background.isWhite, template: background.template })
+        }
+      },
+      ...BACKGROUND_TEMPLATES.map(template => ({
+        label: `${template === background.template ? '✓ ' : ''}${templateLabels[template]}`,
+        onClick: () => {
+          changeBackground({ isWhite: background.isWhite, template })
+        }
+      })),
+      { label: 'Image…', onClick: openBackgroundImage }
+    ]
+    if (background.image) {
+      options.push({
+        label: 'Remove image',
+        onClick: () => {
+          changeBackgroundImage(null)
+        }
+      })
+    }
+
+    menu.replaceChildren()
+    options.forEach(({ label, onClick }) => {
+      const button = document.createElement('button')
+      button.textContent = label
+      button.style.cssText = `
+        padding: 6px 10px;
+        background: rgba(255, 255, 255, 0.1);
+        color: white;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 13px;
+        text-align: left;
+      `
+      button.addEventListener('click', () => {
+        menu.style.display = 'none'
+        onClick()
+      })
+      menu.appendChild(button)
+    })
+  }
+
+  backgroundButton.addEventListener('click', () => {
+    if (isPresentationMode || !canDraw(currentUserId)) return
+
+    if (menu.style.display === 'none') {
+      fillMenu()
+      menu.style.display = 'flex'
+    } else {
+      menu.style.display = 'none'
+    }
+  })
+
+  return backgroundContainer
+}
+
+// Changes the background color and template for everyone
+function changeBackground(settings: Pick<BoardBackground, 'isWhite' | 'template'>) {
+  if (!canDraw(currentUserId)) return
+
+  const stamp = nextStamp()
+  setBackground(settings, stamp)
+  sendMessage({
+    type: 'whiteboard-background',
+    ...settings,
+    clock: stamp.clock,
+    userId: currentUserId
+  })
+}
+
+// Changes the background image for everyone. Big images go out in chunks
+// and take a moment to show up for the others
+function changeBackgroundImage(image: string | null) {
+  if (!canDraw(currentUserId)) return
+
+  const stamp = nextStamp()
+  setBackgroundImage(image, stamp)
+  sendMessage({
+    type: 'whiteboard-background-image',
+    image,
+    clock: stamp.clock,
+    userId: currentUserId
+  })
+}
+
+// The image and the rest of the background are decided separately, so
+// switching the template doesn't send the image around again
+function setBackground(settings: Pick<BoardBackground, 'isWhite' | 'template'>, stamp: Stamp) {
+  if (compareStamps(stamp, backgroundStamp) <= 0) return
+
+  backgroundStamp = stamp
+  whiteboardState.background = { ...whiteboardState.background, isWhite: settings.isWhite, template: settings.template }
+  applyBackground()
+}
+
+function setBackgroundImage(image: string | null, stamp: Stamp) {
+  if (compareStamps(stamp, backgroundImageStamp) <= 0) return
+
+  backgroundImageStamp = stamp
+  whiteboardState.background = { ...whiteboardState.background, image }
+  applyBackground()
+}
+
+// Shows the background as the board has it, decoding a new image first
+function applyBackground() {
+  const { image } = whiteboardState.background
+  const isWhite = isBackgroundWhite()
+  boardRevision++
+
+  const backgroundButton = parent.document.getElementById('whiteboard-background-button')
+  if (backgroundButton) {
+    backgroundButton.textContent = isWhite ? '⬜' : '⬛'
+  }
+
+  const container = parent.document.getElementById('whiteboard-container')
+  if (container) {
+    container.style.background = isWhite ? 'white' : 'transparent'
+    container.style.border = isWhite ? '2px solid #ccc' : 'none'
+  }
+  if (canvas) {
+    canvas.style.background = isWhite ? 'white' : 'transparent'
+  }
+
+  if (image !== backgroundImageSource) {
+    backgroundImageSource = image
+    backgroundImageChecksum = image ? checksum(image) : ''
+    backgroundImage = null
+    if (image) {
+      const decoded = new Image()
+      decoded.onload = () => {
+        // Replaced again while it was loading
+        if (backgroundImageSource !== image) return
+        backgroundImage = decoded
+        invalidateCanvas()
+      }
+      decoded.onerror = () => {
+        console.error('Could not decode the background image')
+      }
+      decoded.src = image
+    }
+  }
+  invalidateCanvas()
+}
+
+// Lets the user pick an image, like a screenshot or a page exported from a
+// PDF viewer, to annotate on
+function openBackgroundImage() {
+  const input = document.createElement('input')
+  input.type = 'file'
+  input.accept = 'image/*'
+  input.style.display = 'none'
+  input.addEventListener('change', async () => {
+    input.remove()
+    const file = input.files?.[0]
+    if (!file) return
+
+    try {
+      changeBackgroundImage(await encodeBackgroundImage(file))
+      plugin.ui.showToast({
+        message: `${file.name} is the background now`,
+        isInterrupt: true
+      })
+    } catch (e) {
+      console.error('Rejected background image:', e)
+      plugin.ui.showToast({
+        message: `Couldn't use ${file.name} as background: ${e instanceof Error ? e.message : 'unreadable image'}`,
+        isInterrupt: true
+      })
+    }
+  })
+
+  parent.document.body.appendChild(input)
+  input.click()
+}
+
+// Scales an image down to a size that can be sent to everyone, as PNG if
+// that's small enough and as JPEG otherwise
+async function encodeBackgroundImage(file: Blob): Promise<string> {
+  const url = URL.createObjectURL(file)
+  try {
+    const image = new Image()
+    image.src = url
+    try {
+      await image.decode()
+    } catch {
+      throw new Error('not an image the browser can read')
+    }
+
+    const scale = Math.min(1, MAX_BACKGROUND_IMAGE_SIZE / Math.max(image.naturalWidth, image.naturalHeight))
+    const imageCanvas = document.createElement('canvas')
+    imageCanvas.width = Math.max(1, Math.round(image.naturalWidth * scale))
+    imageCanvas.height = Math.max(1, Math.round(image.naturalHeight * scale))
+    const imageCtx = imageCanvas.getContext('2d')
+    if (!imageCtx) throw new Error('no canvas to scale it on')
+    imageCtx.drawImage(image, 0, 0, imageCanvas.width, imageCanvas.height)
+
+    const png = imageCanvas.toDataURL('image/png')
+    if (png.length <= MAX_BACKGROUND_IMAGE_LENGTH) return png
+
+    // JPEG has no transparency, so whatever was see-through turns white
+    imageCtx.globalCompositeOperation = 'destination-over'
+    imageCtx.fillStyle = '#ffffff'
+    imageCtx.fillRect(0, 0, imageCanvas.width, imageCanvas.height)
+    const jpeg = imageCanvas.toDataURL('image/jpeg', 0.85)
+    if (jpeg.length <= MAX_BACKGROUND_IMAGE_LENGTH) return jpeg
+
+    throw new Error('the image is too detailed to share')
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+// The board covers whatever is behind it, except in presentation mode where
+// the shared content has to show through
+function isBackgroundWhite(): boolean {
+  return whiteboardState.background.isWhite && !isPresentationMode
+}
+
+// Draws the background of a board drawn through `rect` onto a surface of
+// the given size
+function drawBackground(target: CanvasRenderingContext2D, rect: BoardRect, width: number, height: number) {
+  const { isWhite, template } = whiteboardState.background
+  if (isWhite) {
+    target.fillStyle = '#ffffff'
+    target.fillRect(0, 0, width, height)
+  }
+
+  const marks = getTemplateMarks(template, rect, { x: 0, y: 0, width, height })
+  target.save()
+  target.strokeStyle = TEMPLATE_COLOR
+  target.fillStyle = TEMPLATE_COLOR
+  target.lineWidth = 1
+  target.beginPath()
+  for (const [from, to] of marks.lines) {
+    target.moveTo(from.x, from.y)
+    target.lineTo(to.x, to.y)
+  }
+  target.stroke()
+  for (const dot of marks.dots) {
+    target.fillRect(dot.x - 1, dot.y - 1, 2, 2)
+  }
+  target.restore()
+
+  if (backgroundImage) {
+    const box = fitImage(backgroundImage.naturalWidth, backgroundImage.naturalHeight, rect)
+    target.drawImage(backgroundImage, box.x, box.y, box.width, box.height)
+  }
+}
+
+// The background of a vector page laid out through `rect`: template lines
+// and dots, then the image
+function getBackgroundItems(rect: BoardRect, width: number, height: number): VectorItem[] {
+  const items: VectorItem[] = []
+  const marks = getTemplateMarks(whiteboardState.background.template, rect, { x: 0, y: 0, width, height })
+  for (const line of marks.lines) {
+    items.push({ kind: 'path', points: line, color: TEMPLATE_COLOR, width: 1 })
+  }
+  for (const dot of marks.dots) {
+    items.push({ kind: 'path', points: [dot], color: TEMPLATE_COLOR, width: 2 })
+  }
+
+  const jpeg = getBackgroundJpeg()
+  if (backgroundImage && jpeg) {
+    const { naturalWidth, naturalHeight } = backgroundImage
+    items.push({
+      kind: 'image',
+      ...fitImage(naturalWidth, naturalHeight, rect),
+      jpeg,
+      pixelWidth: naturalWidth,
+      pixelHeight: naturalHeight
+    })
+  }
+  return items
+}
+
+// The background image as base64 JPEG on white, which both vector formats
+// can embed
+function getBackgroundJpeg(): string | null {
+  if (!backgroundImage || !backgroundImageSource) return null
+  if (backgroundJpeg?.source === backgroundImageSource) return backgroundJpeg.data
+
+  const imageCanvas = document.createElement('canvas')
+  imageCanvas.width = backgroundImage.naturalWidth
+  imageCanvas.height = backgroundImage.naturalHeight
+  const imageCtx = imageCanvas.getContext('2d')
+  if (!imageCtx) return null
+
+  imageCtx.fillStyle = '#ffffff'
+  imageCtx.fillRect(0, 0, imageCanvas.width, imageCanvas.height)
+  imageCtx.drawImage(backgroundImage, 0, 0)
+  const data = imageCanvas.toDataURL('image/jpeg', 0.9).replace(/^data:image\/jpeg;base64,/, '')
+  backgroundJpeg = { source: backgroundImageSource, data }
+  return data
+}
+
+// Downloads the whole board as a file that can be loaded again later
+function saveBoardFile() {
+  try {
+    const data = JSON.stringify(createBoardFile(whiteboardState.strokes), null, 2)
+    downloadBlob(new Blob([data], { type: 'application/json' }), `whiteboard-${getExportTimestamp()}.json`)
+    plugin.ui.showToast({
+      message: 'Whiteboard saved! Load the file again any time from the 💾 menu.',
+      isInterrupt: true
+    })
+  } catch (e) {
+    console.error('Error saving whiteboard:', e)
+    plugin.ui.showToast({
+      message: 'Failed to save whiteboard',
+      isInterrupt: true
+    })
+  }
+}
+
+// The board in the saved file format, with the given strokes
+function createBoardFile(strokes: DrawingStroke[]): BoardFile {
+  return {
+    format: BOARD_FILE_FORMAT,
+    version: BOARD_FILE_VERSION,
+    metadata: {
+      savedAt: new Date().toISOString(),
+      savedBy: currentUserName,
+      conferenceAlias: conferenceAlias ?? undefined,
+      conferenceName: conferenceName ?? undefined
+    },
+    background: whiteboardState.background.isWhite ? 'white' : 'transparent',
+    template: whiteboardState.background.template,
+    backgroundImage: whiteboardState.background.image ?? undefined,
+    pages: whiteboardState.pages,
+    activePageId: whiteboardState.activePageId,
+    // Annotations belong with the presentation, files keep the board
+    strokes: strokes.filter(stroke => getPageIndex(getPageId(stroke)) !== -1)
+  }
+}
+
+// Lets a host pick a saved board, which then replaces the board for everyone
+function openBoardFile() {
+  if (!isHost(currentUserId)) {
+    plugin.ui.showToast({
+      message: 'Only hosts can load a saved whiteboard',
+      isInterrupt: true
+    })
+    return
+  }
+
+  const input = document.createElement('input')
+  input.type = 'file'
+  input.accept = '.json,application/json'
+  input.style.display = 'none'
+  input.addEventListener('change', async () => {
+    input.remove()
+    const file = input.files?.[0]
+    if (!file) return
+
+    let data: string
+    let board: BoardFile
+    try {
+      data = await file.text()
+      board = parseBoardFile(data)
+    } catch (e) {
+      console.error('Rejected whiteboard file:', e)
+      plugin.ui.showToast({
+        message: `Couldn't load ${file.name}: ${e instanceof Error ? e.message : 'unreadable file'}`,
+        isInterrupt: true
+      })
+      return
+    }
+
+    const stamp = nextStamp()
+    const loadId = generateId()
+    loadBoardFile(board, stamp, loadId)
+    sendMessage({
+      type: 'whiteboard-load',
+      board: data,
+      loadId,
+      clock: stamp.clock,
+      userId: currentUserId
+    })
+    plugin.ui.showToast({
+      message: `Loaded ${file.name} for everyone`,
+      isInterrupt: true
+    })
+  })
+
+  parent.document.body.appendChild(input)
+  input.click()
+}
+
+// Replaces the whole board with a saved one. Local history refers to strokes
+// that are gone now, so it starts over. What was on the board goes the way
+// of a clear of every page, so strokes drawn after the load stay
+function loadBoardFile(board: BoardFile, stamp: Stamp, loadId: string) {
+  closeTextEditor()
+  selectedIds = []
+  undoStack = []
+  redoStack = []
+
+  if (!clearRecords.has(loadId)) {
+    clearRecords.set(loadId, { id: loadId, pageId: null, stamp, isActive: true, activeStamp: stamp })
+  }
+  for (const stroke of board.strokes) {
+    const record = strokeRecords.get(stroke.id)
+    if (record && compareStamps(stamp, record.dataStamp) > 0) {
+      record.stroke = stroke
+      record.dataStamp = stamp
+      record.fieldStamps = {}
+    }
+  }
+  boardRevision++
+  addStrokes(board.strokes, stamp)
+  // Pages of the old board go, those of the file come back if deleted
+  const pageIds = new Set(board.pages.map(page => page.id))
+  for (const page of [...getPageOrder(), ...board.pages]) {
+    mergePageDeletion({ pageId: page.id, isDeleted: !pageIds.has(page.id), stamp })
+  }
+  receivePages(board.pages, board.activePageId, stamp)
+  setBackground({ isWhite: board.background === 'white', template: board.template }, stamp)
+  setBackgroundImage(board.backgroundImage ?? null, stamp)
+}
+
+// Hands a file to the browser as a download. Clipboard access doesn't work
+// from the plugin iframe, so this is the way out
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.style.display = 'none'
+
+  // Add to parent document and trigger download
+  parent.document.body.appendChild(a)
+  a.click()
+  parent.document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+function getExportTimestamp(): string {
+  return new Date().toISOString().slice(0, 19).replace(/:/g, '-')
+}
+
+// Lays out a page for vector export in reference pixels, so stroke widths
+// and font sizes carry over as they are
+function getVectorPage(pageId: string): VectorPage {
+  const region = getExportRegion(pageId)
+  const rect: BoardRect = {
+    x: -region.x * BOARD_REFERENCE_WIDTH,
+    y: -region.y * (BOARD_REFERENCE_WIDTH / BOARD_ASPECT_RATIO),
+    width: BOARD_REFERENCE_WIDTH,
+    height: BOARD_REFERENCE_WIDTH / BOARD_ASPECT_RATIO
+  }
+  // Text is measured with the same font metrics as on screen
+  const measureContext = document.createElement('canvas').getContext('2d')
+  const width = region.width * rect.width
+  const height = region.height * rect.height
+  const items = getBackgroundItems(rect, width, height)
+
+  for (const stroke of getPageStrokes(pageId)) {
+    if (stroke.points.length === 0) continue
+    const points = stroke.points.map(point => toSurfacePoint(point, rect))
+
+    if (stroke.text !== undefined) {
+      if (!measureContext) continue
+      const fontSize = getFontSize(stroke.width)
+      const padding = stroke.note ? NOTE_PADDING : 0
+      const box = measureText(measureContext, stroke, rect)
+      if (stroke.note) {
+        items.push({ kind: 'fill', x: box.x, y: box.y, width: box.width, height: box.height, color: stroke.color })
+      }
+      items.push({
+        kind: 'text',
+        x: box.x + padding,
+        // Canvas text hangs from the top, vector text sits on its baseline
+        y: box.y + padding + fontSize * TEXT_ASCENT,
+        lines: stroke.text.split('\n'),
+        fontSize,
+        color: stroke.note ? '#000000' : stroke.color
+      })
+      continue
+    }
+
+    const style = { color: stroke.color, width: stroke.width }
+    const start = points[0]
+    const end = points[points.length - 1]
+    switch (stroke.shape) {
+      case undefined:
+        items.push(...getFreehandPaths(stroke, rect))
+        break
+
+      case 'line':
+        items.push({ kind: 'path', points: [start, end], ...style })
+        break
+
+      case 'arrow': {
+        const headLength = Math.max(10, stroke.width * 4)
+        const angle = Math.atan2(end.y - start.y, end.x - start.x)
+        items.push({ kind: 'path', points: [start, end], ...style })
+        items.push({
+          kind: 'path',
+          points: [
+            {
+              x: end.x - headLength * Math.cos(angle - Math.PI / 6),
+              y: end.y - headLength * Math.sin(angle - Math.PI / 6)
+            },
+            end,
+            {
+              x: end.x - headLength * Math.cos(angle + Math.PI / 6),
+              y: end.y - headLength * Math.sin(angle + Math.PI / 6)
+            }
+          ],
+          ...style
+        })
+        break
+      }
+
+      case 'rectangle':
+        items.push({ kind: 'path', points: rectangleOutline(start, end), ...style })
+        break
+
+      case 'ellipse':
+        items.push({ kind: 'path', points: ellipseOutline(start, end, 96), ...style })
+        break
+    }
+
+    if (includeAuthorsInExport) {
+      items.push({
+        kind: 'text',
+        x: end.x + 5,
+        y: end.y - 5,
+        lines: [getParticipantName(stroke.userId, stroke.userName)],
+        fontSize: 12,
+        color: stroke.color,
+        outline: '#ffffff'
+      })
+    }
+  }
+
+  return {
+    width,
+    height,
+    background: whiteboardState.background.isWhite ? '#ffffff' : null,
+    items
+  }
+}
+
+// A freehand stroke as the same smoothed curve the canvas draws, flattened
+// into paths. Pen strokes are split into runs that share a width, since
+// vector paths have one width each
+function getFreehandPaths(stroke: DrawingStroke, rect: BoardRect): VectorItem[] {
+  // Quarter pixel steps are plenty and keep the file small
+  const getWidth = (point: DrawingPoint) => Math.round(stroke.width * getPressureScale(point) * 4) / 4
+
+  if (stroke.points.length === 1) {
+    const dot = toSurfacePoint(stroke.points[0], rect)
+    return [{ kind: 'path', points: [dot], color: stroke.color, width: getWidth(stroke.points[0]) }]
+  }
+
+  const paths: VectorItem[] = []
+  let run: Point[] = []
+  let runWidth = 0
+  for (const piece of getCurvePieces(stroke, rect)) {
+    const width = getWidth(stroke.points[piece.index])
+    if (run.length === 0 || width !== runWidth) {
+      if (run.length > 1) {
+        paths.push({ kind: 'path', points: run, color: stroke.color, width: runWidth })
+      }
+      run = [piece.from]
+      runWidth = width
+    }
+    run.push(...flattenPiece(piece))
+  }
+  paths.push({ kind: 'path', points: run, color: stroke.color, width: runWidth })
+  return paths
+}
+
+// Downloads the current page as an SVG
+function exportSvg() {
+  try {
+    const svg = buildSvg(getVectorPage(currentPageId))
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `whiteboard-${getExportTimestamp()}.svg`)
+    plugin.ui.showToast({
+      message: 'Whiteboard downloaded as SVG!',
+      isInterrupt: true
+    })
+  } catch (e) {
+    console.error('Error exporting SVG:', e)
+    plugin.ui.showToast({
+      message: 'Failed to export SVG',
+      isInterrupt: true
+    })
+  }
+}
+
+// Downloads the given pages as one PDF, a PDF page per board page
+function exportPdf(pageIds: string[]) {
+  try {
+    const pdf = buildPdf(pageIds.map(getVectorPage))
+    downloadBlob(pdf, `whiteboard-${getExportTimestamp()}.pdf`)
+    plugin.ui.showToast({
+      message:
+        pageIds.length > 1
+          ? `Whiteboard downloaded as a ${pageIds.length} page PDF!`
+          : 'Whiteboard downloaded as PDF!',
+      isInterrupt: true
+    })
+  } catch (e) {
+    console.error('Error exporting PDF:', e)
+    plugin.ui.showToast({
+      message: 'Failed to export PDF',
+      isInterrupt: true
+    })
+  }
+}
+
+// Downloads one PNG per page
+function exportPages(pageIds: string[]) {
+  if (!canvas) return
+
+  try {
+    // One board at the size it has on the local surface, unzoomed
+    const boardRect = getBoardRect(surfaceWidth, surfaceHeight)
+    const timestamp = getExportTimestamp()
+
+    pageIds.forEach(pageId => {
+      // Create a temporary canvas to combine background and drawings
+      const tempCanvas = document.createElement('canvas')
+      const tempCtx = tempCanvas.getContext('2d')
+      if (!tempCtx) return
+
+      // The board plus whatever was drawn beyond its edges
+      const region = getExportRegion(pageId)
+      const scale = Math.min(
+        1,
+        MAX_EXPORT_SIZE / (boardRect.width * region.width),
+        MAX_EXPORT_SIZE / (boardRect.height * region.height)
+      )
+      const unitWidth = boardRect.width * scale
+      const unitHeight = boardRect.height * scale
+      tempCanvas.width = Math.round(unitWidth * region.width)
+      tempCanvas.height = Math.round(unitHeight * region.height)
+      const exportRect = {
+        x: -region.x * unitWidth,
+        y: -region.y * unitHeight,
+        width: unitWidth,
+        height: unitHeight
+      }
+
+      drawBackground(tempCtx, exportRect, tempCanvas.width, tempCanvas.height)
+
+      // Draw all strokes of the page
+      for (const stroke of getPageStrokes(pageId)) {
+        renderStroke(tempCtx, stroke, exportRect)
+      }
+      if (includeAuthorsInExport) {
+        for (const stroke of getPageStrokes(pageId)) {
+          renderStrokeLabel(tempCtx, stroke, exportRect, 12 * (exportRect.width / BOARD_REFERENCE_WIDTH))
+        }
+      }
+
+      const pageNumber = getPageIndex(pageId) + 1
+      const fileName =
+        pageIds.length > 1
+          ? `whiteboard-${timestamp}-page-${pageNumber}.png`
+          : `whiteboard-${timestamp}.png`
+
+      // Convert to blob
+      tempCanvas.toBlob(async (blob) => {
+        if (blob) {
+          try {
+            // Create a download link as fallback since clipboard doesn't work in iframe lol
+            downloadBlob(blob, fileName)
+          } catch (e) {
+            console.error('Error downloading whiteboard:', e)
+            plugin.ui.showToast({
+              message: 'Failed to download whiteboard',
+              isInterrupt: true
+            })
+          }
+        }
+      }, 'image/png')
+    })
+
+    plugin.ui.showToast({
+      message:
+        pageIds.length > 1
+          ? `Downloading ${pageIds.length} pages! You can copy the images from your downloads.`
+          : 'Whiteboard downloaded! You can copy the image from your downloads.',
+      isInterrupt: true
+    })
+  } catch (e) {
+    console.error('Error preparing clipboard copy:', e)
+    plugin.ui.showToast({
+      message: 'Error copying whiteboard',
+      isInterrupt: true
+    })
+  }
+}
+
+function drawUserName(
+  target: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  userName: string,
+  strokeColor: string,
+  fontSize: number = 12
+) {
+  // Save current context state
+  target.save()
+  
+  // Set text properties
+  target.font = `${fontSize}px Arial`
+  target.fillStyle = strokeColor
+  target.strokeStyle = '#ffffff'
+  target.lineWidth = 3
+  
+  // Calculate text position (slightly offset from the stroke end)
+  const textX = x + 5
+  const textY = y - 5
+  
+  // Draw text outline for better visibility
+  target.strokeText(userName, textX, textY)
+  
+  // Draw text
+  target.fillText(userName, textX, textY)
   
-  const touch = e.touches[0]
-  const mouseEvent = new MouseEvent('mousemove', {
-    clientX: touch.clientX,
-    clientY: touch.clientY
+  // Restore context state
+  target.restore()
+}
+
+// Largest rectangle with the board aspect ratio that fits the surface,
+// centered so the board is letterboxed rather than stretched
+function getBoardRect(surfaceWidth: number, surfaceHeight: number): BoardRect {
+  let width = surfaceWidth
+  let height = surfaceWidth / BOARD_ASPECT_RATIO
+  if (height > surfaceHeight) {
+    height = surfaceHeight
+    width = surfaceHeight * BOARD_ASPECT_RATIO
+  }
+  return {
+    x: (surfaceWidth - width) / 2,
+    y: (surfaceHeight - height) / 2,
+    width,
+    height
+  }
+}
+
+// The board rect on screen once panned and zoomed. Drawing through this
+// rect is what applies the view transform
+function getViewRect(surfaceWidth: number, surfaceHeight: number): BoardRect {
+  const rect = getBoardRect(surfaceWidth, surfaceHeight)
+  const width = rect.width * viewport.zoom
+  const height = rect.height * viewport.zoom
+  return {
+    x: rect.x - viewport.x * width,
+    y: rect.y - viewport.y * height,
+    width,
+    height
+  }
+}
+
+// Region of a page worth exporting in board units: the board itself plus
+// anything drawn beyond its edges
+function getExportRegion(pageId: string): BoardRect {
+  const content = getContentBounds(pageId)
+  if (!content) return { x: 0, y: 0, width: 1, height: 1 }
+
+  const x = Math.min(0, content.x)
+  const y = Math.min(0, content.y)
+  return {
+    x,
+    y,
+    width: Math.max(1, content.x + content.width) - x,
+    height: Math.max(1, content.y + content.height) - y
+  }
+}
+
+// Bounds of everything on a page, in board units
+function getContentBounds(pageId: string): BoardRect | null {
+  const corners: Point[] = []
+  for (const stroke of getPageStrokes(pageId)) {
+    const bounds = getStrokeBounds(stroke)
+    if (bounds) {
+      corners.push(
+        fromReferencePoint({ x: bounds.x, y: bounds.y }),
+        fromReferencePoint({ x: bounds.x + bounds.width, y: bounds.y + bounds.height })
+      )
+    }
+  }
+  return getBounds(corners)
+}
+
+function toSurfacePoint(point: DrawingPoint, rect: BoardRect): { x: number; y: number } {
+  return {
+    x: rect.x + point.x * rect.width,
+    y: rect.y + point.y * rect.height
+  }
+}
+
+// Converts a pointer position to normalized board coordinates, which go
+// beyond 0 and 1 off the edges of the default view
+function toBoardPoint(e: MouseEvent): DrawingPoint {
+  if (!canvas) return { x: 0, y: 0 }
+
+  // The canvas can be scaled by CSS, map client pixels to canvas pixels first
+  const point = toCanvasPoint(e)
+  const rect = getViewRect(surfaceWidth, surfaceHeight)
+  return {
+    x: (point.x - rect.x) / rect.width,
+    y: (point.y - rect.y) / rect.height
+  }
+}
+
+// Draws the part of a stroke starting at point index `from` onto any
+// surface, leaving the context state untouched
+function renderStroke(
+  target: CanvasRenderingContext2D,
+  stroke: DrawingStroke,
+  rect: BoardRect,
+  from: number = 0
+) {
+  if (stroke.points.length === 0) return
+
+  if (stroke.text !== undefined) {
+    renderText(target, stroke, rect)
+    return
+  }
+
+  if (stroke.shape) {
+    renderShape(target, stroke, rect)
+    return
+  }
+
+  const start = Math.max(0, from)
+  const lineWidth = stroke.width * (rect.width / BOARD_REFERENCE_WIDTH)
+
+  target.save()
+  target.strokeStyle = stroke.color
+  target.lineWidth = lineWidth
+  target.lineCap = 'round'
+  target.lineJoin = 'round'
+
+  if (stroke.points.length === 1) {
+    // Single point, draw a dot
+    const dot = toSurfacePoint(stroke.points[0], rect)
+    target.lineWidth = lineWidth * getPressureScale(stroke.points[0])
+    target.beginPath()
+    target.moveTo(dot.x, dot.y)
+    target.lineTo(dot.x, dot.y)
+    target.stroke()
+    target.restore()
+    return
+  }
+
+  const pieces = getCurvePieces(stroke, rect, start)
+
+  // Pen strokes change width with pressure, so every piece gets its own
+  if (hasPressure(stroke)) {
+    for (const piece of pieces) {
+      target.lineWidth = lineWidth * getPressureScale(stroke.points[piece.index])
+      target.beginPath()
+      traceCurvePiece(target, piece, true)
+      target.stroke()
+    }
+    target.restore()
+    return
+  }
+
+  target.beginPath()
+  pieces.forEach((piece, index) => {
+    traceCurvePiece(target, piece, index === 0)
+  })
+  target.stroke()
+  target.restore()
+}
+
+// The smoothed pieces of a freehand stroke on a surface, from the piece of
+// point index `from` on. Only the samples those pieces depend on are mapped
+function getCurvePieces(stroke: DrawingStroke, rect: BoardRect, from: number = 0): CurvePiece[] {
+  const offset = Math.max(0, from - 1)
+  const points = stroke.points.slice(offset).map(point => toSurfacePoint(point, rect))
+  return smoothCurve(points)
+    .map(piece => ({ ...piece, index: piece.index + offset }))
+    .filter(piece => piece.index >= from && (offset === 0 || piece.index > offset))
+}
+
+function traceCurvePiece(target: CanvasRenderingContext2D, piece: CurvePiece, isFirst: boolean) {
+  if (isFirst) {
+    target.moveTo(piece.from.x, piece.from.y)
+  }
+  if (piece.control) {
+    target.quadraticCurveTo(piece.control.x, piece.control.y, piece.to.x, piece.to.y)
+  } else {
+    target.lineTo(piece.to.x, piece.to.y)
+  }
+}
+
+function renderShape(
+  target: CanvasRenderingContext2D,
+  stroke: DrawingStroke,
+  rect: BoardRect
+) {
+  if (stroke.points.length < 2) return
+
+  const start = toSurfacePoint(stroke.points[0], rect)
+  const end = toSurfacePoint(stroke.points[stroke.points.length - 1], rect)
+  const lineWidth = stroke.width * (rect.width / BOARD_REFERENCE_WIDTH)
+
+  target.save()
+  target.strokeStyle = stroke.color
+  target.lineWidth = lineWidth
+  target.lineCap = 'round'
+  target.lineJoin = 'round'
+  target.beginPath()
+
+  switch (stroke.shape) {
+    case 'line':
+      target.moveTo(start.x, start.y)
+      target.lineTo(end.x, end.y)
+      break
+
+    case 'arrow': {
+      // Head scales with the line width but stays visible for thin lines
+      const headLength = Math.max(10, lineWidth * 4)
+      const angle = Math.atan2(end.y - start.y, end.x - start.x)
+      target.moveTo(start.x, start.y)
+      target.lineTo(end.x, end.y)
+      target.moveTo(end.x, end.y)
+      target.lineTo(
+        end.x - headLength * Math.cos(angle - Math.PI / 6),
+        end.y - headLength * Math.sin(angle - Math.PI / 6)
+      )
+      target.moveTo(end.x, end.y)
+      target.lineTo(
+        end.x - headLength * Math.cos(angle + Math.PI / 6),
+        end.y - headLength * Math.sin(angle + Math.PI / 6)
+      )
+      break
+    }
+
+    case 'rectangle':
+      target.rect(
+        Math.min(start.x, end.x),
+        Math.min(start.y, end.y),
+        Math.abs(end.x - start.x),
+        Math.abs(end.y - start.y)
+      )
+      break
+
+    case 'ellipse':
+      target.ellipse(
+        (start.x + end.x) / 2,
+        (start.y + end.y) / 2,
+        Math.abs(end.x - start.x) / 2,
+        Math.abs(end.y - start.y) / 2,
+        0,
+        0,
+        Math.PI * 2
+      )
+      break
+  }
+
+  target.stroke()
+  target.restore()
+}
+
+function isShapeTool(tool: Tool): tool is ShapeKind {
+  return tool !== 'pen' && tool !== 'text' && tool !== 'note'
+}
+
+function getFontSize(width: number): number {
+  return FONT_SIZE_BASE + width * FONT_SIZE_PER_WIDTH
+}
+
+// Surface area covered by a text element or sticky note
+function measureText(
+  target: CanvasRenderingContext2D,
+  stroke: DrawingStroke,
+  rect: BoardRect
+): BoardRect {
+  const scale = rect.width / BOARD_REFERENCE_WIDTH
+  const fontSize = getFontSize(stroke.width) * scale
+  const padding = stroke.note ? NOTE_PADDING * scale : 0
+  const lines = (stroke.text ?? '').split('\n')
+
+  target.save()
+  target.font = `${fontSize}px Arial`
+  const textWidth = Math.max(...lines.map(line => target.measureText(line).width))
+  target.restore()
+
+  const origin = toSurfacePoint(stroke.points[0], rect)
+  return {
+    x: origin.x,
+    y: origin.y,
+    width: stroke.note ? Math.max(textWidth + padding * 2, NOTE_MIN_WIDTH * scale) : textWidth,
+    height: lines.length * fontSize * LINE_HEIGHT + padding * 2
+  }
+}
+
+function renderText(
+  target: CanvasRenderingContext2D,
+  stroke: DrawingStroke,
+  rect: BoardRect
+) {
+  // The open text field stands in for the element while it's edited
+  if (stroke === editingStroke) return
+
+  const scale = rect.width / BOARD_REFERENCE_WIDTH
+  const fontSize = getFontSize(stroke.width) * scale
+  const padding = stroke.note ? NOTE_PADDING * scale : 0
+  const box = measureText(target, stroke, rect)
+  const lines = (stroke.text ?? '').split('\n')
+
+  target.save()
+  if (stroke.note) {
+    target.shadowColor = 'rgba(0, 0, 0, 0.3)'
+    target.shadowBlur = 6 * scale
+    target.shadowOffsetY = 2 * scale
+    target.fillStyle = stroke.color
+    target.fillRect(box.x, box.y, box.width, box.height)
+    target.shadowColor = 'transparent'
+  }
+  target.font = `${fontSize}px Arial`
+  target.textBaseline = 'top'
+  target.fillStyle = stroke.note ? '#000000' : stroke.color
+  lines.forEach((line, index) => {
+    target.fillText(line, box.x + padding, box.y + padding + index * fontSize * LINE_HEIGHT)
+  })
+  target.restore()
+}
+
+// Draws the part of a stroke starting at point index `from` on the live
+// layer with the next frame. Strokes that aren't being drawn right now are
+// in the stroke cache, which repaints them as a whole
+function drawStrokeSegment(stroke: DrawingStroke, from: number) {
+  schedulePersist()
+  if (!canvas || replay || getPageId(stroke) !== currentPageId) return
+  if (stroke !== currentStroke && !liveStrokeIds.has(stroke.id)) {
+    redrawCanvas()
+    return
+  }
+
+  pendingSegments.set(stroke, Math.min(from, pendingSegments.get(stroke) ?? from))
+  scheduleRender()
+}
+
+// Labels a stroke with its author at the stroke's last point
+function renderStrokeLabel(
+  target: CanvasRenderingContext2D,
+  stroke: DrawingStroke,
+  rect: BoardRect,
+  fontSize?: number
+) {
+  // Text speaks for itself
+  if (stroke.points.length === 0 || stroke.text !== undefined) return
+
+  const lastPoint = toSurfacePoint(stroke.points[stroke.points.length - 1], rect)
+  // Prefer the roster name, the stroke may predate a rename
+  const userName = getParticipantName(stroke.userId, stroke.userName)
+  drawUserName(target, lastPoint.x, lastPoint.y, userName, stroke.color, fontSize)
+}
+
+// Has the canvas catch up with the board on the next frame. Only what
+// changed gets repainted, so this is cheap to call
+function redrawCanvas() {
+  // Everything that changes the board ends up here, so this is where the
+  // local copy gets refreshed
+  schedulePersist()
+  isLiveStale = true
+  scheduleRender()
+}
+
+// For changes to what's behind the strokes, like the background
+function invalidateCanvas() {
+  isCanvasStale = true
+  redrawCanvas()
+}
+
+// Any number of changes before the next frame are drawn in one go
+function scheduleRender() {
+  if (!canvas || renderFrame !== null) return
+  // The overlay is in the conference page, which keeps rendering frames
+  // when the plugin's own hidden frame doesn't
+  renderFrame = parent.requestAnimationFrame(renderCanvas)
+}
+
+// Sizes the canvases for a surface of the given CSS size, backed by device
+// pixels so strokes stay crisp on HiDPI screens
+function resizeCanvas(width: number, height: number) {
+  surfaceWidth = width
+  surfaceHeight = height
+  pixelRatio = parent.devicePixelRatio || 1
+
+  const layers: Array<[HTMLCanvasElement | null, CanvasRenderingContext2D | null]> = [
+    [canvas, ctx],
+    [liveCanvas, liveCtx],
+    [strokeCache, strokeCacheCtx]
+  ]
+  for (const [target, context] of layers) {
+    if (!target || !context) continue
+    target.width = Math.round(width * pixelRatio)
+    target.height = Math.round(height * pixelRatio)
+    // Resizing resets the context, drawing code keeps working in CSS pixels
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+  }
+  cacheViewKey = null
+  invalidateCanvas()
+}
+
+// Draws a frame: the background and the cached finished strokes on the
+// canvas, and whatever is being drawn right now on the live layer
+function renderCanvas() {
+  renderFrame = null
+  if (!canvas || !ctx || !liveCtx) return
+
+  // Moving the window to a screen with a different pixel density doesn't
+  // resize anything
+  if ((parent.devicePixelRatio || 1) !== pixelRatio) {
+    resizeCanvas(surfaceWidth, surfaceHeight)
+  }
+  const rect = getViewRect(surfaceWidth, surfaceHeight)
+
+  // The live board keeps changing underneath, it just isn't shown
+  if (replay) {
+    ctx.clearRect(0, 0, surfaceWidth, surfaceHeight)
+    drawCanvasBackground(ctx, rect)
+    renderReplay(ctx, replay, rect)
+    liveCtx.clearRect(0, 0, surfaceWidth, surfaceHeight)
+    pendingSegments.clear()
+    isCanvasStale = true
+    isLiveStale = true
+    updateCursors()
+    return
+  }
+
+  const regions = updateStrokeCache(rect)
+  if (isCanvasStale || !regions) {
+    composeCanvas(rect, null)
+  } else {
+    for (const region of regions) {
+      composeCanvas(rect, region)
+    }
+  }
+  isCanvasStale = false
+
+  renderLive(rect)
+  updateCursors()
+}
+
+function drawCanvasBackground(target: CanvasRenderingContext2D, rect: BoardRect) {
+  // Presentation mode is always transparent, the board draws over the
+  // presentation
+  if (!isPresentationMode) {
+    drawBackground(target, rect, surfaceWidth, surfaceHeight)
+  } else if (currentPageId !== getActiveLayer()?.id || !isPresentationActive) {
+    // Earlier layers show the slide they annotated, the live one has moved on
+    drawLayerFrame(target, currentPageId, surfaceWidth, surfaceHeight)
+  }
+}
+
+// Paints the background and the cached strokes over a region of the
+// canvas, or all of it
+function composeCanvas(rect: BoardRect, region: Rect | null) {
+  if (!ctx || !strokeCache) return
+
+  const area = region ?? { x: 0, y: 0, width: surfaceWidth, height: surfaceHeight }
+  if (area.width <= 0 || area.height <= 0) return
+
+  ctx.save()
+  ctx.beginPath()
+  ctx.rect(area.x, area.y, area.width, area.height)
+  ctx.clip()
+  ctx.clearRect(area.x, area.y, area.width, area.height)
+  drawCanvasBackground(ctx, rect)
+  // Regions are whole device pixels, so the cache is copied pixel for pixel
+  ctx.drawImage(
+    strokeCache,
+    area.x * pixelRatio,
+    area.y * pixelRatio,
+    area.width * pixelRatio,
+    area.height * pixelRatio,
+    area.x,
+    area.y,
+    area.width,
+    area.height
+  )
+  ctx.restore()
+}
+
+// Brings the stroke cache up to date with the board by comparing it with
+// what was drawn last time. Returns the regions that changed, or null when
+// the view changed and all of it was repainted
+function updateStrokeCache(rect: BoardRect): Rect[] | null {
+  const viewKey = [surfaceWidth, surfaceHeight, pixelRatio, currentPageId, rect.x, rect.y, rect.width].join(':')
+  const isNewView = viewKey !== cacheViewKey
+  const previous = isNewView ? new Map<string, CachedStroke>() : cachedStrokes
+  const changed: Rect[] = []
+
+  const strokes = getPageStrokes().filter(stroke => stroke.points.length > 0 && !liveStrokeIds.has(stroke.id))
+  cacheViewKey = viewKey
+  cachedStrokes = new Map()
+  strokes.forEach((stroke, index) => {
+    // Draw user name only at the very end of the stroke (WIP)
+    // Only draw name if this is the last stroke or if it's been more than 2 seconds since the last name
+    const hasLabel = stroke.text === undefined && (Date.now() - stroke.timestamp > 2000 || index === strokes.length - 1)
+    const label = hasLabel ? getParticipantName(stroke.userId, stroke.userName) : null
+
+    const cached = previous.get(stroke.id)
+    if (cached && isCacheCurrent(cached, stroke, label)) {
+      cachedStrokes.set(stroke.id, cached)
+      return
+    }
+    const entry = describeCachedStroke(stroke, label, rect)
+    cachedStrokes.set(stroke.id, entry)
+    for (const bounds of [cached?.bounds, entry.bounds]) {
+      if (bounds) changed.push(bounds)
+    }
+  })
+  for (const [id, cached] of previous) {
+    if (!cachedStrokes.has(id) && cached.bounds) {
+      changed.push(cached.bounds)
+    }
+  }
+
+  if (isNewView) {
+    paintStrokeCache(rect, null)
+    return null
+  }
+  const regions = getDirtyRegions(changed)
+  for (const region of regions) {
+    paintStrokeCache(rect, region)
+  }
+  return regions
+}
+
+function isCacheCurrent(cached: CachedStroke, stroke: DrawingStroke, label: string | null): boolean {
+  return (
+    cached.points === stroke.points &&
+    cached.pointCount === stroke.points.length &&
+    cached.color === stroke.color &&
+    cached.width === stroke.width &&
+    cached.text === stroke.text &&
+    cached.label === label &&
+    cached.isEditing === (stroke === editingStroke)
+  )
+}
+
+function describeCachedStroke(stroke: DrawingStroke, label: string | null, rect: BoardRect): CachedStroke {
+  return {
+    stroke,
+    points: stroke.points,
+    pointCount: stroke.points.length,
+    color: stroke.color,
+    width: stroke.width,
+    text: stroke.text,
+    label,
+    isEditing: stroke === editingStroke,
+    bounds: getSurfaceBounds(stroke, label, rect)
+  }
+}
+
+// Surface area a stroke can paint, generously so nothing is left behind
+// when it's repainted
+function getSurfaceBounds(stroke: DrawingStroke, label: string | null, rect: BoardRect): Rect | null {
+  const bounds = getStrokeBounds(stroke)
+  if (!bounds) return null
+
+  const topLeft = toSurfacePoint(fromReferencePoint({ x: bounds.x, y: bounds.y }), rect)
+  const bottomRight = toSurfacePoint(
+    fromReferencePoint({ x: bounds.x + bounds.width, y: bounds.y + bounds.height }),
+    rect
+  )
+  let area: Rect = { x: topLeft.x, y: topLeft.y, width: bottomRight.x - topLeft.x, height: bottomRight.y - topLeft.y }
+
+  // The name is drawn just above and right of the last point
+  if (label !== null && ctx) {
+    const end = toSurfacePoint(stroke.points[stroke.points.length - 1], rect)
+    ctx.save()
+    ctx.font = '12px Arial'
+    const labelWidth = ctx.measureText(label).width
+    ctx.restore()
+    area = unionRects(area, { x: end.x + 3, y: end.y - 20, width: labelWidth + 4, height: 20 })
+  }
+
+  // Pen pressure widens lines, arrow heads stick out sideways, notes cast a
+  // shadow and edges are antialiased
+  const scale = rect.width / BOARD_REFERENCE_WIDTH
+  const margin = Math.max(stroke.width * scale * 2, 5, 8 * scale) + 2
+  return {
+    x: area.x - margin,
+    y: area.y - margin,
+    width: area.width + margin * 2,
+    height: area.height + margin * 2
+  }
+}
+
+// Changed areas rounded out to whole device pixels and cut to the surface
+function getDirtyRegions(areas: Rect[]): Rect[] {
+  if (!strokeCache || areas.length === 0) return []
+
+  const merged = areas.length > MAX_DIRTY_REGIONS ? [areas.reduce(unionRects)] : areas
+  const regions: Rect[] = []
+  for (const area of merged) {
+    const left = Math.max(0, Math.floor(area.x * pixelRatio))
+    const top = Math.max(0, Math.floor(area.y * pixelRatio))
+    const right = Math.min(strokeCache.width, Math.ceil((area.x + area.width) * pixelRatio))
+    const bottom = Math.min(strokeCache.height, Math.ceil((area.y + area.height) * pixelRatio))
+    if (right > left && bottom > top) {
+      regions.push({
+        x: left / pixelRatio,
+        y: top / pixelRatio,
+        width: (right - left) / pixelRatio,
+        height: (bottom - top) / pixelRatio
+      })
+    }
+  }
+  return regions
+}
+
+// Repaints the cached strokes within a region, or all of them
+function paintStrokeCache(rect: BoardRect, region: Rect | null) {
+  if (!strokeCacheCtx) return
+
+  const area = region ?? { x: 0, y: 0, width: surfaceWidth, height: surfaceHeight }
+  strokeCacheCtx.save()
+  strokeCacheCtx.beginPath()
+  strokeCacheCtx.rect(area.x, area.y, area.width, area.height)
+  strokeCacheCtx.clip()
+  strokeCacheCtx.clearRect(area.x, area.y, area.width, area.height)
+  for (const cached of cachedStrokes.values()) {
+    if (region && (!cached.bounds || !doRectsOverlap(cached.bounds, region))) continue
+
+    renderStroke(strokeCacheCtx, cached.stroke, rect)
+    if (cached.label !== null) {
+      renderStrokeLabel(strokeCacheCtx, cached.stroke, rect)
+    }
+  }
+  strokeCacheCtx.restore()
+}
+
+// Repaints the live layer, or just adds the stroke pieces that came in
+// since the last frame
+function renderLive(rect: BoardRect) {
+  if (!liveCtx) return
+
+  if (isLiveStale) {
+    liveCtx.clearRect(0, 0, surfaceWidth, surfaceHeight)
+    for (const stroke of getPageStrokes()) {
+      if (liveStrokeIds.has(stroke.id)) {
+        renderStroke(liveCtx, stroke, rect)
+      }
+    }
+    if (currentStroke && getPageId(currentStroke) === currentPageId) {
+      renderStroke(liveCtx, currentStroke, rect)
+    }
+    drawSelection(liveCtx, rect)
+  } else {
+    for (const [stroke, from] of pendingSegments) {
+      renderStroke(liveCtx, stroke, rect, from)
+    }
+  }
+  pendingSegments.clear()
+  isLiveStale = false
+}
+
+function getPageId(stroke: DrawingStroke): string {
+  return stroke.pageId ?? DEFAULT_PAGE_ID
+}
+
+function getPageStrokes(pageId: string = currentPageId): DrawingStroke[] {
+  return whiteboardState.strokes.filter(stroke => getPageId(stroke) === pageId)
+}
+
+function getPageIndex(pageId: string): number {
+  return whiteboardState.pages.findIndex(page => page.id === pageId)
+}
+
+function createPageControls(): HTMLElement {
+  const pageContainer = document.createElement('div')
+  pageContainer.style.cssText = `
+    display: flex;
+    gap: 3px;
+    align-items: center;
+  `
+
+  const buttonStyle = `
+    padding: 8px 10px;
+    background: rgba(0, 0, 0, 0.7);
+    color: white;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+    font-size: 14px;
+  `
+  const addPageButton = (icon: string, title: string, onClick: () => void, id?: string) => {
+    const button = document.createElement('button')
+    button.textContent = icon
+    button.title = title
+    button.style.cssText = buttonStyle
+    if (id) {
+      button.id = id
+    }
+    button.addEventListener('click', onClick)
+    pageContainer.appendChild(button)
+  }
+
+  addPageButton('◀', 'Previous Page', () => {
+    goToPage(whiteboardState.pages[getPageIndex(currentPageId) - 1]?.id)
+  })
+
+  const pageLabel = document.createElement('span')
+  pageLabel.id = 'whiteboard-page-label'
+  pageLabel.style.cssText = `
+    color: white;
+    font-size: 13px;
+    min-width: 36px;
+    text-align: center;
+  `
+  pageContainer.appendChild(pageLabel)
+
+  addPageButton('▶', 'Next Page', () => {
+    goToPage(whiteboardState.pages[getPageIndex(currentPageId) + 1]?.id)
+  })
+  addPageButton('＋', 'Add Page', addPage)
+  addPageButton('－', 'Delete Page', () => {
+    void deletePage()
+  })
+  addPageButton('«', 'Move Page Left', () => {
+    movePage(-1)
+  })
+  addPageButton('»', 'Move Page Right', () => {
+    movePage(1)
+  })
+  addPageButton('🔗', '', toggleFollowPage, 'whiteboard-follow-button')
+  addPageButton('📚', 'Download All Pages', () => {
+    exportPages(whiteboardState.pages.map(page => page.id))
+  })
+
+  return pageContainer
+}
+
+function updatePageControls() {
+  const pageLabel = parent.document.getElementById('whiteboard-page-label')
+  if (pageLabel) {
+    pageLabel.textContent = `${getPageIndex(currentPageId) + 1}/${whiteboardState.pages.length}`
+  }
+
+  const layerLabel = parent.document.getElementById('whiteboard-layer-label')
+  if (layerLabel) {
+    const index = getLayerIndex(currentPageId)
+    layerLabel.textContent = `${index === -1 ? '–' : index + 1}/${whiteboardState.layers.length}`
+    layerLabel.title = findLayer(currentPageId)?.title ?? ''
+  }
+
+  const followButton = parent.document.getElementById('whiteboard-follow-button')
+  if (followButton) {
+    followButton.title = isFollowingPage ? 'Following Page Changes (click to browse on your own)' : 'Browsing on Your Own (click to follow)'
+    followButton.style.background = isFollowingPage ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.7)'
+  }
+}
+
+function showPage(pageId: string) {
+  if (getPageIndex(pageId) === -1 && !findLayer(pageId)) return
+
+  if (pageId !== currentPageId) {
+    // Selections, half finished text and replays don't carry over to
+    // another page
+    commitTextEditor()
+    selectedIds = []
+    stopReplay()
+    currentPageId = pageId
+  }
+  updatePageControls()
+  redrawCanvas()
+}
+
+// Switches the local page, followers take everyone else along
+function goToPage(pageId: string | undefined) {
+  if (!pageId) return
+
+  showPage(pageId)
+  if (isFollowingPage && canDraw(currentUserId)) {
+    const stamp = nextStamp()
+    whiteboardState.activePageId = pageId
+    activePageStamp = stamp
+    sendMessage({
+      type: 'whiteboard-page-switch',
+      pageId,
+      clock: stamp.clock,
+      userId: currentUserId
+    })
+  }
+}
+
+// Moves the conference to a page, unless someone moved it on since
+function setActivePage(pageId: string, stamp: Stamp) {
+  if (getPageIndex(pageId) === -1 || compareStamps(stamp, activePageStamp) <= 0) return
+
+  whiteboardState.activePageId = pageId
+  activePageStamp = stamp
+  if (isFollowingPage) {
+    showBoardPage(pageId)
+  }
+}
+
+function toggleFollowPage() {
+  isFollowingPage = !isFollowingPage
+  if (isFollowingPage) {
+    showBoardPage(whiteboardState.activePageId)
+  }
+  updatePageControls()
+}
+
+// Shows a whiteboard page, or makes it the one to go back to while
+// annotating a presentation
+function showBoardPage(pageId: string) {
+  if (isPresentationMode) {
+    whiteboardPageId = pageId
+    updatePageControls()
+    redrawCanvas()
+  } else {
+    showPage(pageId)
+  }
+}
+
+function addPage() {
+  if (!canDraw(currentUserId)) return
+
+  const page: BoardPage = { id: generateId() }
+  const pages = getPageOrder()
+  pages.splice(pages.findIndex(other => other.id === currentPageId) + 1, 0, page)
+  setPages(pages)
+  goToPage(page.id)
+}
+
+// Deletes the current page for everyone once confirmed. Like clearing,
+// taking away a page that has ever been drawn on is for hosts
+async function deletePage() {
+  if (!canDraw(currentUserId)) return
+
+  if (whiteboardState.pages.length <= 1) {
+    plugin.ui.showToast({
+      message: 'The last page can\'t be deleted, use clear instead',
+      isInterrupt: true
+    })
+    return
+  }
+
+  const pageId = currentPageId
+  if (!isHost(currentUserId) && isPageDrawn(pageId)) {
+    plugin.ui.showToast({
+      message: 'Only hosts can delete pages with drawings on them',
+      isInterrupt: true
+    })
+    return
+  }
+
+  try {
+    const choice = await plugin.ui.showPrompt({
+      title: 'Delete page?',
+      description: `Page ${getPageIndex(pageId) + 1} and everything on it will be deleted for everyone. You can undo this.`,
+      prompt: {
+        primaryAction: 'Delete',
+        secondaryAction: 'Cancel'
+      }
+    })
+    if (choice !== 'Delete') return
+  } catch (e) {
+    console.error('Error confirming page deletion:', e)
+    return
+  }
+
+  // The board may have changed while the prompt was open
+  const index = getPageIndex(pageId)
+  if (index === -1 || whiteboardState.pages.length <= 1) return
+
+  const stamp = nextStamp()
+  setPageDeleted(pageId, true, stamp)
+  recordHistory({ kind: 'page', pageId })
+  sendMessage({
+    type: 'whiteboard-page-delete',
+    pageId,
+    clock: stamp.clock,
+    userId: currentUserId
+  })
+  goToPage(whiteboardState.pages[Math.min(index, whiteboardState.pages.length - 1)].id)
+}
+
+// Every page in order, deleted ones included
+function getPageOrder(): BoardPage[] {
+  return [...pageList, ...unlistedPages]
+}
+
+// The pages left after deletions. Should concurrent deletions take every
+// page, the first one stays so there's always something to draw on
+function getVisiblePages(): BoardPage[] {
+  const pages = getPageOrder()
+  if (pageDeletions.size === 0) return pages
+
+  const drawnPageIds = getDrawnPageIds()
+  const visible = pages.filter(page => !isPageDeleted(page.id, drawnPageIds))
+  return visible.length > 0 ? visible : pages.slice(0, 1)
+}
+
+// Pages anyone ever drew on, from every stroke we know including erased and
+// cleared ones, so every participant comes to the same answer
+function getDrawnPageIds(): Set<string> {
+  return new Set([...strokeRecords.values()].map(record => getPageId(record.stroke)))
+}
+
+function isPageDrawn(pageId: string): boolean {
+  return getDrawnPageIds().has(pageId)
+}
+
+function isPageDeleted(pageId: string, drawnPageIds: Set<string>): boolean {
+  const deletion = pageDeletions.get(pageId)
+  return !!deletion?.isDeleted && (isHost(deletion.stamp.userId) || !drawnPageIds.has(pageId))
+}
+
+// Deletes a page or brings it back, unless a later operation on it won
+function setPageDeleted(pageId: string, isDeleted: boolean, stamp: Stamp) {
+  if (mergePageDeletion({ pageId, isDeleted, stamp })) {
+    updatePages()
+  }
+}
+
+function mergePageDeletion(deletion: PageDeletion): boolean {
+  const current = pageDeletions.get(deletion.pageId)
+  if (current && compareStamps(deletion.stamp, current.stamp) <= 0) return false
+
+  pageDeletions.set(deletion.pageId, { ...deletion })
+  return true
+}
+
+function movePage(offset: number) {
+  if (!canDraw(currentUserId)) return
+
+  const target = whiteboardState.pages[getPageIndex(currentPageId) + offset]
+  if (getPageIndex(currentPageId) === -1 || !target) return
+
+  // Deleted pages in between keep their place
+  const pages = getPageOrder().filter(page => page.id !== currentPageId)
+  const targetIndex = pages.findIndex(page => page.id === target.id)
+  pages.splice(offset < 0 ? targetIndex : targetIndex + 1, 0, { id: currentPageId })
+  setPages(pages)
+}
+
+// Changes the page list for everyone
+function setPages(pages: BoardPage[]) {
+  const stamp = nextStamp()
+  pagesStamp = stamp
+  activePageStamp = stamp
+  applyPages(pages, whiteboardState.activePageId)
+
+  sendMessage({
+    type: 'whiteboard-pages',
+    pages: pageList,
+    activePageId: whiteboardState.activePageId,
+    clock: stamp.clock,
+    userId: currentUserId
+  })
+}
+
+// Takes over a page list from someone else's operation, unless a later one
+// changed it since. Pages only the older list has were added at the same
+// time as the newer one was sent, they stay
+function receivePages(
+  pages: BoardPage[],
+  activePageId: string | undefined,
+  stamp: Stamp,
+  unlisted: BoardPage[] = []
+) {
+  if (compareStamps(stamp, pagesStamp) <= 0) {
+    unlistedPages = getUnlistedPages(pageList, [...unlistedPages, ...pages, ...unlisted])
+    updatePages()
+    return
+  }
+
+  pagesStamp = stamp
+  const isActivePageNewer = activePageId !== undefined && compareStamps(stamp, activePageStamp) > 0
+  if (isActivePageNewer) {
+    activePageStamp = stamp
+  }
+  applyPages(pages, isActivePageNewer ? activePageId : undefined, unlisted)
+}
+
+// The pages the list doesn't have, ordered by ID so everyone puts them in
+// the same place after it
+function getUnlistedPages(list: BoardPage[], pages: BoardPage[]): BoardPage[] {
+  const listedIds = new Set(list.map(page => page.id))
+  const unlistedIds = new Set(pages.map(page => page.id).filter(id => !listedIds.has(id)))
+  return [...unlistedIds].sort().map(id => ({ id }))
+}
+
+// Takes over a page list. Pages it leaves out aren't deleted, only
+// deletions take pages away
+function applyPages(pages: BoardPage[], activePageId?: string, unlisted: BoardPage[] = []) {
+  const validPages = pages.filter(page => typeof page?.id === 'string')
+  if (validPages.length === 0) return
+
+  const list = validPages.map(page => ({ id: page.id }))
+  unlistedPages = getUnlistedPages(list, [...getPageOrder(), ...unlisted])
+  pageList = list
+  updatePages(activePageId)
+}
+
+// Shows what's left of the pages, moving off any page that's gone
+function updatePages(activePageId?: string) {
+  rebuildStrokes()
+  const pageIds = new Set(whiteboardState.pages.map(page => page.id))
+
+  if (activePageId && pageIds.has(activePageId)) {
+    whiteboardState.activePageId = activePageId
+  } else if (!pageIds.has(whiteboardState.activePageId)) {
+    whiteboardState.activePageId = whiteboardState.pages[0].id
+  }
+
+  if (isPresentationMode && !pageIds.has(whiteboardPageId)) {
+    whiteboardPageId = whiteboardState.activePageId
+  }
+  if (isFollowingPage) {
+    showBoardPage(whiteboardState.activePageId)
+  } else if (!pageIds.has(currentPageId) && !findLayer(currentPageId)) {
+    showPage(whiteboardState.activePageId)
+  } else {
+    updatePageControls()
+    redrawCanvas()
+  }
+}
+
+// Follows content being shared in the conference. Each presentation gets
+// its own annotation layer and the overlay moves onto it
+function updatePresentation() {
+  const isActive = isPresentationConnected || presenterName !== null
+  if (isActive === isPresentationActive) return
+
+  isPresentationActive = isActive
+  if (isActive) {
+    scheduleNewLayer()
+  } else {
+    const layer = getActiveLayer()
+    if (layer && stableFrame) {
+      keepLayerFrame(layer.id, stableFrame)
+    }
+  }
+  setPresentationMode(isActive)
+  invalidateCanvas()
+}
+
+// Moves the overlay onto the shared content to annotate it, or back to the
+// whiteboard pages
+function setPresentationMode(isOn: boolean) {
+  if (isOn === isPresentationMode) return
+
+  if (isOn && !findLayer(currentPageId)) {
+    whiteboardPageId = currentPageId
+  }
+  isPresentationMode = isOn
+
+  const layer = getActiveLayer()
+  if (isOn && layer) {
+    showPage(layer.id)
+  } else {
+    showPage(getPageIndex(whiteboardPageId) === -1 ? whiteboardState.activePageId : whiteboardPageId)
+  }
+  if (whiteboardState.isActive) {
+    removeWhiteboardOverlay()
+    createWhiteboardOverlay()
+  }
+  if (isOn) {
+    waitForPresentationContainer()
+  }
+}
+
+// The shared content shows up on the page a moment after the presentation
+// starts, the overlay moves over once it's there
+function waitForPresentationContainer() {
+  presentationObserver?.disconnect()
+  presentationObserver = null
+  if (findPresentationContainer()) return
+
+  const observer = new MutationObserver(() => {
+    if (!findPresentationContainer()) return
+
+    observer.disconnect()
+    if (isPresentationMode && whiteboardState.isActive) {
+      removeWhiteboardOverlay()
+      createWhiteboardOverlay()
+    }
+  })
+  observer.observe(parent.document.body, { childList: true, subtree: true })
+  presentationObserver = observer
+  setTimeout(() => {
+    observer.disconnect()
+  }, PRESENTATION_ATTACH_TIMEOUT)
+}
+
+function getActiveLayer(): AnnotationLayer | undefined {
+  return whiteboardState.layers[whiteboardState.layers.length - 1]
+}
+
+function findLayer(layerId: string): AnnotationLayer | undefined {
+  return whiteboardState.layers.find(layer => layer.id === layerId)
+}
+
+function getLayerIndex(layerId: string): number {
+  return whiteboardState.layers.findIndex(layer => layer.id === layerId)
+}
+
+// Starts a new layer soon, unless someone else does first
+function scheduleNewLayer() {
+  if (!whiteboardState.isActive || layerTimer || Date.now() - lastLayerAt < MIN_LAYER_INTERVAL) return
+
+  const noticedAt = Date.now()
+  layerTimer = setTimeout(() => {
+    layerTimer = null
+    if (lastLayerAt < noticedAt) {
+      startLayer()
+    }
+  }, Math.random() * LAYER_START_MAX_DELAY)
+}
+
+// Starts a fresh annotation layer for everyone, for a new presentation or
+// slide
+function startLayer() {
+  if (!canDraw(currentUserId)) return
+
+  const stamp = nextStamp()
+  const layer: AnnotationLayer = {
+    id: generateId(),
+    title: presenterName ? `${presenterName}'s presentation` : 'Presentation',
+    stamp
+  }
+  addLayer(layer)
+  sendMessage({
+    type: 'whiteboard-layer',
+    layerId: layer.id,
+    title: layer.title,
+    clock: stamp.clock,
+    userId: currentUserId
+  })
+}
+
+// Takes in a layer from anyone. Layers are only ever added and ordered by
+// stamp, so everyone ends up with the same list and the same newest layer,
+// which is where whoever annotated the previous one carries on
+function addLayer(layer: AnnotationLayer) {
+  if (findLayer(layer.id)) return
+
+  const previous = getActiveLayer()
+  if (previous && stableFrame && isPresentationActive && !layerFrames.has(previous.id)) {
+    keepLayerFrame(previous.id, stableFrame)
+  }
+
+  // Beyond the limit the oldest layers go, the same ones for everyone
+  whiteboardState.layers = [...whiteboardState.layers, layer]
+    .sort((a, b) => compareStamps(a.stamp, b.stamp))
+    .slice(-MAX_PAGES)
+  lastLayerAt = Date.now()
+  rebuildStrokes()
+
+  const active = getActiveLayer()
+  if (isPresentationMode && active && (currentPageId === previous?.id || !findLayer(currentPageId))) {
+    showPage(active.id)
+  } else {
+    // Which layer shows its kept slide has changed
+    updatePageControls()
+    invalidateCanvas()
+  }
+}
+
+// Stands in for the page controls while annotating a presentation
+function createLayerControls(): HTMLElement {
+  const layerContainer = document.createElement('div')
+  layerContainer.style.cssText = `
+    display: flex;
+    gap: 3px;
+    align-items: center;
+  `
+
+  const buttonStyle = `
+    padding: 8px 10px;
+    background: rgba(0, 0, 0, 0.7);
+    color: white;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+    font-size: 14px;
+  `
+  const addLayerButton = (icon: string, title: string, onClick: () => void) => {
+    const button = document.createElement('button')
+    button.textContent = icon
+    button.title = title
+    button.style.cssText = buttonStyle
+    button.addEventListener('click', onClick)
+    layerContainer.appendChild(button)
+  }
+  const showLayerAt = (index: number) => {
+    const layer = whiteboardState.layers[index]
+    if (layer) {
+      showPage(layer.id)
+    }
+  }
+
+  addLayerButton('◀', 'Previous Layer', () => {
+    showLayerAt(getLayerIndex(currentPageId) - 1)
+  })
+
+  const layerLabel = document.createElement('span')
+  layerLabel.id = 'whiteboard-layer-label'
+  layerLabel.style.cssText = `
+    color: white;
+    font-size: 13px;
+    min-width: 36px;
+    text-align: center;
+  `
+  layerContainer.appendChild(layerLabel)
+
+  addLayerButton('▶', 'Next Layer', () => {
+    showLayerAt(getLayerIndex(currentPageId) + 1)
+  })
+  addLayerButton('＋', 'New Layer (for a new slide)', () => {
+    startLayer()
+  })
+  addLayerButton('📚', 'Download All Annotated Slides', () => {
+    exportLayers(whiteboardState.layers.map(layer => layer.id))
+  })
+
+  return layerContainer
+}
+
+function startSlideWatch() {
+  stopSlideWatch()
+  slideWatchTimer = setInterval(checkSlide, SLIDE_CHECK_INTERVAL)
+}
+
+function stopSlideWatch() {
+  if (slideWatchTimer) {
+    clearInterval(slideWatchTimer)
+    slideWatchTimer = null
+  }
+  lastThumbnail = null
+  isSlideChanging = false
+}
+
+// A new slide is the shared content changing a lot and then holding still.
+// The layer being left keeps the last still picture of its slide
+function checkSlide() {
+  if (!isPresentationActive) return
+  const video = findPresentationVideo()
+  if (!video) return
+
+  try {
+    const thumbnail = getThumbnail(video)
+    const previous = lastThumbnail
+    lastThumbnail = thumbnail
+    if (!thumbnail || !previous) return
+
+    let total = 0
+    for (let i = 0; i < thumbnail.length; i++) {
+      total += Math.abs(thumbnail[i] - previous[i])
+    }
+    const change = total / thumbnail.length
+
+    if (change >= SLIDE_CHANGE_THRESHOLD) {
+      isSlideChanging = true
+    } else if (change < SLIDE_STILL_THRESHOLD) {
+      if (isSlideChanging) {
+        isSlideChanging = false
+        const layer = getActiveLayer()
+        if (layer && stableFrame) {
+          keepLayerFrame(layer.id, stableFrame)
+        }
+        scheduleNewLayer()
+      }
+      stableFrame = captureFrame(video, stableFrame ?? undefined)
+    }
+  } catch (e) {
+    console.error('Error watching for slide changes:', e)
+    stopSlideWatch()
+  }
+}
+
+function findPresentationVideo(): HTMLVideoElement | null {
+  const video =
+    findPresentationContainer()?.querySelector('video') ??
+    parent.document.querySelector<HTMLVideoElement>('div[data-testid="in-meeting-video-wrapper"] video')
+  return video && video.videoWidth > 0 ? video : null
+}
+
+// Tiny grayscale copy of a video frame, enough to tell slides apart
+function getThumbnail(video: HTMLVideoElement): Uint8ClampedArray | null {
+  if (!thumbnailContext) {
+    const thumbnailCanvas = document.createElement('canvas')
+    thumbnailCanvas.width = THUMBNAIL_WIDTH
+    thumbnailCanvas.height = THUMBNAIL_HEIGHT
+    thumbnailContext = thumbnailCanvas.getContext('2d', { willReadFrequently: true })
+    if (!thumbnailContext) return null
+  }
+
+  thumbnailContext.drawImage(video, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT)
+  const { data } = thumbnailContext.getImageData(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT)
+  const gray = new Uint8ClampedArray(THUMBNAIL_WIDTH * THUMBNAIL_HEIGHT)
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2]) / 3
+  }
+  return gray
+}
+
+// A still of the presentation, scaled down to a size worth keeping
+function captureFrame(video: HTMLVideoElement, into?: HTMLCanvasElement): HTMLCanvasElement {
+  const scale = Math.min(1, MAX_FRAME_SIZE / Math.max(video.videoWidth, video.videoHeight))
+  const frame = into ?? document.createElement('canvas')
+  frame.width = Math.round(video.videoWidth * scale)
+  frame.height = Math.round(video.videoHeight * scale)
+  frame.getContext('2d')?.drawImage(video, 0, 0, frame.width, frame.height)
+  return frame
+}
+
+function keepLayerFrame(layerId: string, frame: HTMLCanvasElement) {
+  const image = new Image()
+  image.onload = () => {
+    if (layerId === currentPageId) {
+      invalidateCanvas()
+    }
+  }
+  image.src = frame.toDataURL('image/jpeg', 0.85)
+  layerFrames.delete(layerId)
+  layerFrames.set(layerId, image)
+
+  // The oldest frames go first
+  const oldest = layerFrames.keys().next().value
+  if (layerFrames.size > MAX_LAYER_FRAMES && oldest !== undefined) {
+    layerFrames.delete(oldest)
+  }
+}
+
+// The slide a layer annotates: live for the current one while presenting,
+// the kept still for earlier ones
+function getLayerFrame(layerId: string): { source: CanvasImageSource; width: number; height: number } | null {
+  if (layerId === getActiveLayer()?.id && isPresentationActive) {
+    const video = findPresentationVideo()
+    if (video) {
+      const frame = captureFrame(video)
+      return { source: frame, width: frame.width, height: frame.height }
+    }
+  }
+
+  const image = layerFrames.get(layerId)
+  if (!image?.complete || image.naturalWidth === 0) return null
+  return { source: image, width: image.naturalWidth, height: image.naturalHeight }
+}
+
+// Covers the live presentation with the slide an earlier layer annotated
+function drawLayerFrame(target: CanvasRenderingContext2D, layerId: string, width: number, height: number) {
+  const image = layerFrames.get(layerId)
+  if (!image?.complete || image.naturalWidth === 0) return
+
+  const box = fitImage(image.naturalWidth, image.naturalHeight, { x: 0, y: 0, width, height })
+  target.fillStyle = '#000000'
+  target.fillRect(0, 0, width, height)
+  target.drawImage(image, box.x, box.y, box.width, box.height)
+}
+
+// Downloads annotation layers as PNGs, drawn over the slide they annotate
+// as far as this browser saw it
+function exportLayers(layerIds: string[]) {
+  try {
+    const timestamp = getExportTimestamp()
+
+    layerIds.forEach(layerId => {
+      const frame = getLayerFrame(layerId)
+      const tempCanvas = document.createElement('canvas')
+      tempCanvas.width = frame?.width ?? (canvas ? surfaceWidth : BOARD_REFERENCE_WIDTH)
+      tempCanvas.height = frame?.height ?? (canvas ? surfaceHeight : Math.round(BOARD_REFERENCE_WIDTH / BOARD_ASPECT_RATIO))
+      const tempCtx = tempCanvas.getContext('2d')
+      if (!tempCtx) return
+
+      if (frame) {
+        tempCtx.drawImage(frame.source, 0, 0, tempCanvas.width, tempCanvas.height)
+      }
+      const rect = getBoardRect(tempCanvas.width, tempCanvas.height)
+      for (const stroke of getPageStrokes(layerId)) {
+        renderStroke(tempCtx, stroke, rect)
+      }
+      if (includeAuthorsInExport) {
+        for (const stroke of getPageStrokes(layerId)) {
+          renderStrokeLabel(tempCtx, stroke, rect, 12 * (rect.width / BOARD_REFERENCE_WIDTH))
+        }
+      }
+
+      const fileName =
+        layerIds.length > 1
+          ? `annotations-${timestamp}-${getLayerIndex(layerId) + 1}.png`
+          : `annotations-${timestamp}.png`
+      tempCanvas.toBlob(blob => {
+        if (blob) {
+          downloadBlob(blob, fileName)
+        }
+      }, 'image/png')
+    })
+
+    plugin.ui.showToast({
+      message: layerIds.length > 1 ? `Downloading ${layerIds.length} annotated slides!` : 'Annotated slide downloaded!',
+      isInterrupt: true
+    })
+  } catch (e) {
+    console.error('Error exporting annotations:', e)
+    plugin.ui.showToast({
+      message: 'Failed to export annotations',
+      isInterrupt: true
+    })
+  }
+}
+
+function toggleReplay() {
+  if (replay) {
+    stopReplay()
+  } else {
+    startReplay()
+  }
+}
+
+// Replays the current page from a copy, so nothing that happens on the live
+// board meanwhile gets in the way
+function startReplay() {
+  const container = parent.document.getElementById('whiteboard-container')
+  if (!container || replay) return
+
+  const strokes = structuredClone(getPageStrokes()).sort((a, b) => a.timestamp - b.timestamp)
+  if (strokes.length === 0) {
+    plugin.ui.showToast({
+      message: 'Nothing to replay on this page yet',
+      isInterrupt: true
+    })
+    return
+  }
+
+  // Drawing is paused while replaying
+  commitTextEditor()
+  if (isDrawing) {
+    stopDrawing()
+  }
+  selectedIds = []
+
+  replay = {
+    strokes,
+    items: [],
+    duration: 0,
+    time: 0,
+    speed: 1,
+    isPlaying: false,
+    userId: null,
+    frame: null,
+    lastFrameAt: 0
+  }
+  buildReplayTimeline(replay)
+  container.appendChild(createReplayControls(replay))
+  setReplayPlaying(true)
+}
+
+function stopReplay() {
+  if (!replay) return
+
+  if (replay.frame !== null) {
+    parent.cancelAnimationFrame(replay.frame)
+  }
+  replay = null
+  parent.document.getElementById('whiteboard-replay')?.remove()
+  updateReplayControls()
+  redrawCanvas()
+}
+
+// Lays the strokes out on the replay clock. Strokes drawn at the same time
+// overlap like they did live, long pauses are cut short
+function buildReplayTimeline(state: ReplayState) {
+  const strokes = state.strokes.filter(stroke => state.userId === null || stroke.userId === state.userId)
+  const items: ReplayItem[] = []
+
+  strokes.forEach((stroke, index) => {
+    const isFreehand = !stroke.shape && stroke.text === undefined
+    const duration = isFreehand
+      ? Math.min(REPLAY_MAX_STROKE_DURATION, stroke.points.length * REPLAY_POINT_DURATION)
+      : 0
+
+    let start = 0
+    if (index > 0) {
+      const previous = items[index - 1]
+      const gap = stroke.timestamp - strokes[index - 1].timestamp
+      start = previous.start + Math.min(gap, previous.duration + REPLAY_MAX_GAP)
+    }
+    items.push({ stroke, start, duration })
+  })
+
+  state.items = items
+  state.duration = Math.max(0, ...items.map(item => item.start + item.duration))
+  state.time = Math.min(state.time, state.duration)
+}
+
+function renderReplay(target: CanvasRenderingContext2D, state: ReplayState, rect: BoardRect) {
+  for (const item of state.items) {
+    if (item.start > state.time) break
+
+    const progress = item.duration > 0 ? Math.min(1, (state.time - item.start) / item.duration) : 1
+    if (progress >= 1) {
+      renderStroke(target, item.stroke, rect)
+      continue
+    }
+
+    // Stroke still being drawn, show how far it got and who's drawing it
+    const count = Math.max(1, Math.ceil(item.stroke.points.length * progress))
+    const partial = { ...item.stroke, points: item.stroke.points.slice(0, count) }
+    renderStroke(target, partial, rect)
+    renderStrokeLabel(target, partial, rect)
+  }
+}
+
+function setReplayPlaying(isPlaying: boolean) {
+  if (!replay) return
+
+  if (replay.frame !== null) {
+    parent.cancelAnimationFrame(replay.frame)
+    replay.frame = null
+  }
+  replay.isPlaying = isPlaying
+
+  if (isPlaying) {
+    // Playing from the end starts over
+    if (replay.time >= replay.duration) {
+      replay.time = 0
+    }
+    // Frames come from the conference page, this frame is hidden and
+    // doesn't render. Their timestamps are on that page's clock
+    replay.lastFrameAt = parent.performance.now()
+    replay.frame = parent.requestAnimationFrame(stepReplay)
+  }
+  updateReplayControls()
+  redrawCanvas()
+}
+
+function stepReplay(now: number) {
+  if (!replay) return
+
+  replay.time = Math.min(replay.duration, replay.time + (now - replay.lastFrameAt) * replay.speed)
+  replay.lastFrameAt = now
+
+  if (replay.time >= replay.duration) {
+    replay.isPlaying = false
+    replay.frame = null
+  } else {
+    replay.frame = parent.requestAnimationFrame(stepReplay)
+  }
+  updateReplayControls()
+  redrawCanvas()
+}
+
+function seekReplay(time: number) {
+  if (!replay) return
+
+  replay.time = Math.max(0, Math.min(replay.duration, time))
+  updateReplayControls()
+  redrawCanvas()
+}
+
+function setReplayFilter(userId: string | null) {
+  if (!replay) return
+
+  replay.userId = userId
+  buildReplayTimeline(replay)
+  updateReplayControls()
+  redrawCanvas()
+}
+
+function formatReplayTime(time: number): string {
+  const seconds = Math.floor(time / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+function createReplayControls(state: ReplayState): HTMLElement {
+  const bar = document.createElement('div')
+  bar.id = 'whiteboard-replay'
+  bar.style.cssText = `
+    position: absolute;
+    bottom: 10px;
+    left: 50%;
+    transform: translateX(-50%);
+    z-index: 1001;
+    display: flex;
+    gap: 8px;
+    align-items: center;
+    background: rgba(0, 0, 0, 0.8);
+    color: white;
+    padding: 8px;
+    border-radius: 8px;
+    font: 12px Arial;
+  `
+
+  const buttonStyle = `
+    padding: 6px 10px;
+    background: rgba(0, 0, 0, 0.7);
+    color: white;
+    border: none;
+    border-radius: 4px;
+    cursor: pointer;
+    font-size: 14px;
+  `
+
+  const playButton = document.createElement('button')
+  playButton.id = 'whiteboard-replay-play'
+  playButton.style.cssText = buttonStyle
+  playButton.addEventListener('click', () => {
+    setReplayPlaying(!replay?.isPlaying)
+  })
+  bar.appendChild(playButton)
+
+  const slider = document.createElement('input')
+  slider.id = 'whiteboard-replay-slider'
+  slider.type = 'range'
+  slider.min = '0'
+  slider.step = '10'
+  slider.style.cssText = 'width: 240px; cursor: pointer;'
+  slider.addEventListener('input', () => {
+    // Scrubbing pauses, playing on picks up from there
+    if (replay?.isPlaying) {
+      setReplayPlaying(false)
+    }
+    seekReplay(Number(slider.value))
+  })
+  bar.appendChild(slider)
+
+  const timeLabel = document.createElement('span')
+  timeLabel.id = 'whiteboard-replay-time'
+  timeLabel.style.cssText = 'min-width: 80px; text-align: center;'
+  bar.appendChild(timeLabel)
+
+  const speedButton = document.createElement('button')
+  speedButton.id = 'whiteboard-replay-speed'
+  speedButton.title = 'Replay Speed'
+  speedButton.style.cssText = buttonStyle
+  speedButton.addEventListener('click', () => {
+    if (!replay) return
+    const index = REPLAY_SPEEDS.indexOf(replay.speed)
+    replay.speed = REPLAY_SPEEDS[(index + 1) % REPLAY_SPEEDS.length]
+    updateReplayControls()
+  })
+  bar.appendChild(speedButton)
+
+  // Everyone who drew on the page, to replay just their part
+  const authorSelect = document.createElement('select')
+  authorSelect.title = 'Replay Participant'
+  authorSelect.style.cssText = `
+    padding: 5px;
+    background: rgba(0, 0, 0, 0.7);
+    color: white;
+    border: 1px solid #666;
+    border-radius: 4px;
+    font-size: 12px;
+  `
+  const everyone = document.createElement('option')
+  everyone.value = ''
+  everyone.textContent = 'Everyone'
+  authorSelect.appendChild(everyone)
+  const authors = new Map<string, string>()
+  for (const stroke of state.strokes) {
+    authors.set(stroke.userId, getParticipantName(stroke.userId, stroke.userName))
+  }
+  authors.forEach((name, userId) => {
+    const option = document.createElement('option')
+    option.value = userId
+    option.textContent = name
+    authorSelect.appendChild(option)
+  })
+  authorSelect.addEventListener('change', () => {
+    setReplayFilter(authorSelect.value || null)
+  })
+  bar.appendChild(authorSelect)
+
+  const closeButton = document.createElement('button')
+  closeButton.textContent = '✕'
+  closeButton.title = 'Back to the Live Board'
+  closeButton.style.cssText = buttonStyle
+  closeButton.addEventListener('click', stopReplay)
+  bar.appendChild(closeButton)
+
+  return bar
+}
+
+function updateReplayControls() {
+  const replayButton = parent.document.getElementById('whiteboard-replay-button')
+  if (replayButton) {
+    replayButton.style.background = replay ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.7)'
+  }
+  if (!replay) return
+
+  const playButton = parent.document.getElementById('whiteboard-replay-play')
+  if (playButton) {
+    playButton.textContent = replay.isPlaying ? '⏸' : '▶'
+    playButton.title = replay.isPlaying ? 'Pause' : 'Play'
+  }
+
+  const slider = parent.document.getElementById('whiteboard-replay-slider') as HTMLInputElement | null
+  if (slider) {
+    slider.max = String(replay.duration)
+    slider.value = String(replay.time)
+  }
+
+  const timeLabel = parent.document.getElementById('whiteboard-replay-time')
+  if (timeLabel) {
+    timeLabel.textContent = `${formatReplayTime(replay.time)} / ${formatReplayTime(replay.duration)}`
+  }
+
+  const speedButton = parent.document.getElementById('whiteboard-replay-speed')
+  if (speedButton) {
+    speedButton.textContent = `${replay.speed}×`
+  }
+}
+
+// Announces us and keeps the presence list and cursors up to date while the
+// overlay is open
+function startPresence(container: HTMLElement) {
+  sendPresence('whiteboard-presence-join')
+
+  const heartbeatTimer = setInterval(() => {
+    sendPresence('whiteboard-heartbeat')
+  }, HEARTBEAT_INTERVAL)
+
+  // Drops participants that went quiet and ages out drawing indicators
+  const refreshTimer = setInterval(() => {
+    const now = Date.now()
+    for (const [userId, entry] of presence) {
+      if (now - entry.lastSeenAt > PRESENCE_TIMEOUT) {
+        presence.delete(userId)
+      }
+    }
+    updatePresencePanel()
+    updateCursors()
+  }, 1000)
+
+  const checksumTimer = setInterval(sendChecksum, CHECKSUM_INTERVAL)
+
+  ;(container as any).presenceTimers = [heartbeatTimer, refreshTimer, checksumTimer]
+  updatePresencePanel()
+}
+
+function stopPresence(container: HTMLElement) {
+  const timers = ((container as any).presenceTimers ?? []) as Array<ReturnType<typeof setInterval>>
+  timers.forEach(timer => clearInterval(timer))
+  sendPresence('whiteboard-presence-leave')
+}
+
+function sendPresence(type: 'whiteboard-presence-join' | 'whiteboard-heartbeat' | 'whiteboard-presence-leave') {
+  sendMessage({
+    type,
+    pageId: currentPageId,
+    isDrawing,
+    minVersion: MIN_PROTOCOL_VERSION,
+    maxVersion: PROTOCOL_VERSION,
+    userId: currentUserId
+  })
+}
+
+function sendCursor(e: MouseEvent) {
+  sendMessage({
+    type: 'whiteboard-cursor',
+    point: toBoardPoint(e),
+    pageId: currentPageId,
+    isDrawing,
+    userId: currentUserId
+  })
+}
+
+function hideCursor() {
+  sendMessage({
+    type: 'whiteboard-cursor',
+    point: null,
+    pageId: currentPageId,
+    userId: currentUserId
+  })
+}
+
+// Records that a participant is around, and optionally that they're drawing
+function touchPresence(userId: string, update: Partial<PresenceEntry> = {}, isDrawingNow: boolean = false) {
+  if (userId === currentUserId) return
+
+  const now = Date.now()
+  const entry: PresenceEntry = presence.get(userId) ?? {
+    lastSeenAt: now,
+    lastDrawnAt: 0,
+    cursor: null,
+    pageId: DEFAULT_PAGE_ID
+  }
+  Object.assign(entry, update)
+  entry.lastSeenAt = now
+  if (isDrawingNow) {
+    entry.lastDrawnAt = now
+  }
+
+  const isNew = !presence.has(userId)
+  presence.set(userId, entry)
+  if (isNew || isDrawingNow) {
+    updatePresencePanel()
+  }
+}
+
+function handlePresenceMessage(message: Extract<WhiteboardMessage, { isDrawing: boolean }>, userId: string) {
+  const { pageId } = message
+
+  switch (message.type) {
+    case 'whiteboard-presence-join': {
+      const isNew = !presence.has(userId)
+      touchPresence(userId, { pageId }, message.isDrawing)
+      // Let the newcomer know we're here too
+      if (isNew && whiteboardState.isActive) {
+        sendPresence('whiteboard-heartbeat')
+      }
+      break
+    }
+
+    case 'whiteboard-heartbeat':
+      touchPresence(userId, { pageId }, message.isDrawing)
+      break
+
+    case 'whiteboard-presence-leave':
+      presence.delete(userId)
+      updatePresencePanel()
+      break
+
+    case 'whiteboard-cursor':
+      touchPresence(userId, { pageId, cursor: message.point }, message.isDrawing)
+      break
+  }
+
+  updateCursors()
+}
+
+// Stable color per participant so cursors and the presence list match
+function getParticipantColor(userId: string): string {
+  let hash = 0
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0
+  }
+  return `hsl(${Math.abs(hash) % 360}, 80%, 45%)`
+}
+
+function isParticipantDrawing(entry: PresenceEntry): boolean {
+  return Date.now() - entry.lastDrawnAt < DRAWING_INDICATOR_TIMEOUT
+}
+
+function updatePresencePanel() {
+  const panel = parent.document.getElementById('whiteboard-presence')
+  if (!panel) return
+
+  panel.replaceChildren()
+
+  const title = document.createElement('div')
+  title.textContent = `On the whiteboard (${presence.size + 1})`
+  title.style.cssText = 'font-weight: bold; margin-bottom: 4px;'
+  panel.appendChild(title)
+
+  const addRow = (name: string, color: string, isDrawingNow: boolean) => {
+    const row = document.createElement('div')
+    row.style.cssText = 'display: flex; align-items: center; gap: 6px; padding: 2px 0;'
+
+    const dot = document.createElement('span')
+    dot.style.cssText = `width: 8px; height: 8px; border-radius: 50%; background: ${color}; flex-shrink: 0;`
+    row.appendChild(dot)
+
+    const label = document.createElement('span')
+    label.textContent = isDrawingNow ? `${name} ✏️` : name
+    row.appendChild(label)
+    panel.appendChild(row)
+  }
+
+  addRow(`${currentUserName} (you)`, getParticipantColor(currentUserId), isDrawing)
+  for (const [userId, entry] of presence) {
+    addRow(getParticipantName(userId), getParticipantColor(userId), isParticipantDrawing(entry))
+  }
+}
+
+// Positions the remote cursors on the current page and view
+function updateCursors() {
+  const layer = parent.document.getElementById('whiteboard-cursors')
+  if (!layer || !canvas) return
+
+  const rect = getViewRect(surfaceWidth, surfaceHeight)
+  // Surface to CSS pixels, in case the canvas is scaled
+  const scaleX = canvas.clientWidth > 0 ? canvas.clientWidth / surfaceWidth : 1
+  const scaleY = canvas.clientHeight > 0 ? canvas.clientHeight / surfaceHeight : 1
+  const visible = new Set<string>()
+
+  for (const [userId, entry] of presence) {
+    if (!entry.cursor || entry.pageId !== currentPageId) continue
+    visible.add(userId)
+
+    let cursor = layer.querySelector<HTMLElement>(`[data-user-id="${CSS.escape(userId)}"]`)
+    if (!cursor) {
+      const color = getParticipantColor(userId)
+      cursor = document.createElement('div')
+      cursor.dataset.userId = userId
+      cursor.style.cssText = `
+        position: absolute;
+        top: 0;
+        left: 0;
+        display: flex;
+        align-items: flex-start;
+        transition: transform 80ms linear;
+      `
+      cursor.innerHTML = `<svg width="16" height="20" viewBox="0 0 16 20"><path d="M0 0 L0 16 L4.5 12 L8 19 L10.5 18 L7 11 L13 11 Z" fill="${color}" stroke="white" stroke-width="1"/></svg>`
+
+      const label = document.createElement('span')
+      label.style.cssText = `
+        margin: 14px 0 0 2px;
+        padding: 1px 5px;
+        border-radius: 3px;
+        background: ${color};
+        color: white;
+        font: 11px Arial;
+        white-space: nowrap;
+      `
+      cursor.appendChild(label)
+      layer.appendChild(cursor)
+    }
+
+    const position = toSurfacePoint(entry.cursor, rect)
+    cursor.style.transform = `translate(${position.x * scaleX}px, ${position.y * scaleY}px)`
+    const label = cursor.querySelector('span')
+    if (label) {
+      const name = getParticipantName(userId)
+      label.textContent = isParticipantDrawing(entry) ? `${name} ✏️` : name
+    }
+  }
+
+  // Remove cursors of people who left or moved elsewhere
+  layer.querySelectorAll<HTMLElement>('[data-user-id]').forEach(cursor => {
+    if (!visible.has(cursor.dataset.userId ?? '')) {
+      cursor.remove()
+    }
+  })
+}
+
+function getDisplayName(participant: InfinityParticipant): string {
+  return participant.displayName || participant.overlayText || 'Unknown User'
+}
+
+function getParticipantName(userId: string, fallback?: string): string {
+  return participantNames.get(userId) ?? (fallback || 'Unknown User')
+}
+
+// Records a roster entry and relabels that participant's strokes, returns
+// whether anything visible changed
+function updateParticipantName(participant: InfinityParticipant): boolean {
+  const name = getDisplayName(participant)
+  if (participantNames.get(participant.uuid) === name) return false
+
+  participantNames.set(participant.uuid, name)
+  if (participant.uuid === currentUserId) {
+    currentUserName = name
+  }
+
+  let hasChanged = false
+  for (const stroke of whiteboardState.strokes) {
+    if (stroke.userId === participant.uuid && stroke.userName !== name) {
+      stroke.userName = name
+      hasChanged = true
+    }
+  }
+  return hasChanged
+}
+
+function isHost(userId: string): boolean {
+  return hostIds.has(userId)
+}
+
+function canDraw(userId: string): boolean {
+  if (isHost(userId)) return true
+  if (boardPermissions.revoked.includes(userId)) return false
+  return !boardPermissions.isLocked || boardPermissions.granted.includes(userId)
+}
+
+function updateParticipantRole(participant: InfinityParticipant) {
+  if (participant.isHost) {
+    hostIds.add(participant.uuid)
+  } else {
+    hostIds.delete(participant.uuid)
+  }
+
+  if (participant.uuid === currentUserId) {
+    updateHostControls().catch(e => {
+      console.error('Error updating host controls:', e)
+    })
+  }
+}
+
+// Hosts get an entry in the participant list to grant or revoke drawing
+async function updateHostControls() {
+  if (isUpdatingHostControls) return
+  isUpdatingHostControls = true
+
+  try {
+    if (isHost(currentUserId) && !drawingRightsButton) {
+      drawingRightsButton = await plugin.ui.addButton({
+        position: 'participantActions',
+        label: 'Toggle whiteboard drawing'
+      })
+      drawingRightsButton.onClick.add(({ participantUuid }) => {
+        toggleDrawingRights(participantUuid)
+      })
+    } else if (!isHost(currentUserId) && drawingRightsButton) {
+      await drawingRightsButton.remove()
+      drawingRightsButton = null
+    }
+  } finally {
+    isUpdatingHostControls = false
+  }
+}
+
+function toggleDrawingRights(userId: string) {
+  if (!isHost(currentUserId)) return
+
+  const name = getParticipantName(userId)
+  if (isHost(userId)) {
+    plugin.ui.showToast({
+      message: `${name} is a host and can always draw`,
+      isInterrupt: true
+    })
+    return
+  }
+
+  const allowed = !canDraw(userId)
+  const granted = boardPermissions.granted.filter(id => id !== userId)
+  const revoked = boardPermissions.revoked.filter(id => id !== userId)
+  if (allowed) {
+    granted.push(userId)
+  } else {
+    revoked.push(userId)
+  }
+  setPermissions({ ...boardPermissions, granted, revoked })
+
+  plugin.ui.showToast({
+    message: allowed ? `${name} can now draw` : `${name} can no longer draw`,
+    isInterrupt: true
   })
-  canvas.dispatchEvent(mouseEvent)
 }
 
-function handleTouchEnd(e: TouchEvent) {
-  e.preventDefault()
-  if (!canvas) return
-  
-  const mouseEvent = new MouseEvent('mouseup', {})
-  canvas.dispatchEvent(mouseEvent)
+function toggleBoardLock() {
+  if (!isHost(currentUserId)) return
+
+  // A fresh lock starts with nobody but hosts allowed to draw
+  setPermissions({
+    isLocked: !boardPermissions.isLocked,
+    granted: [],
+    revoked: boardPermissions.revoked
+  })
+}
+
+function setPermissions(permissions: BoardPermissions) {
+  applyPermissions(permissions)
+  sendPermissions()
+}
+
+function sendPermissions() {
+  sendMessage({
+    type: 'whiteboard-permissions',
+    permissions: boardPermissions,
+    userId: currentUserId
+  })
+}
+
+function applyPermissions(permissions: BoardPermissions) {
+  const couldDraw = canDraw(currentUserId)
+  const wasLocked = boardPermissions.isLocked
+
+  boardPermissions = {
+    isLocked: permissions.isLocked === true,
+    granted: Array.isArray(permissions.granted) ? permissions.granted : [],
+    revoked: Array.isArray(permissions.revoked) ? permissions.revoked : []
+  }
+  updatePermissionIndicators()
+
+  // Stop a stroke in progress if we just lost the right to draw
+  if (!canDraw(currentUserId) && isDrawing) {
+    stopDrawing()
+  }
+
+  let message: string | null = null
+  if (wasLocked !== boardPermissions.isLocked) {
+    message = boardPermissions.isLocked ? 'The whiteboard is now read-only' : 'The whiteboard is unlocked'
+  } else if (couldDraw !== canDraw(currentUserId)) {
+    message = canDraw(currentUserId) ? 'You can now draw on the whiteboard' : 'You can no longer draw on the whiteboard'
+  }
+  if (message && whiteboardState.isActive) {
+    plugin.ui.showToast({ message, isInterrupt: true })
+  }
+}
+
+function updatePermissionIndicators() {
+  if (canvas) {
+    canvas.style.cursor = canDraw(currentUserId) ? 'crosshair' : 'not-allowed'
+  }
+
+  const lockButton = parent.document.getElementById('whiteboard-lock-button')
+  if (lockButton) {
+    lockButton.textContent = boardPermissions.isLocked ? '🔒' : '🔓'
+    lockButton.title = boardPermissions.isLocked ? 'Unlock Whiteboard' : 'Lock Whiteboard (read-only)'
+    lockButton.style.background = boardPermissions.isLocked ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.7)'
+  }
+}
+
+// Adds a stroke or shape from another participant to the board, returns it
+// unless it was a duplicate, unusable or already cleared or erased
+function receiveStroke(stroke: DrawingStroke, userId: string, userName: string, stamp: Stamp): DrawingStroke | null {
+  // Ignore duplicates of a stroke we already know about
+  if (!stroke?.id || !Array.isArray(stroke.points) || strokeRecords.has(stroke.id)) return null
+
+  // Attribute the stroke to whoever actually sent it
+  stroke.userId = userId
+  stroke.userName = userName
+
+  // One record per stroke ID, later points are appended to it
+  addStrokes([stroke], stamp)
+  rebuildStrokes()
+  if (!findStroke(stroke.id)) return null
+
+  drawStrokeSegment(stroke, 0)
+  return stroke
+}
+
+function findStroke(id: string): DrawingStroke | undefined {
+  return whiteboardState.strokes.find(stroke => stroke.id === id)
 }
 
-function sendDrawingData(stroke: DrawingStroke) {
+// Writes the board to local storage soon, at most once per interval
+function schedulePersist() {
+  if (!isPersistenceReady || persistTimer || !conferenceAlias) return
+
+  persistTimer = setTimeout(() => {
+    persistTimer = null
+    void persistBoard()
+  }, PERSIST_INTERVAL)
+}
+
+async function persistBoard() {
+  if (!conferenceAlias) return
+
   try {
-    plugin.conference.sendApplicationMessage({
-      payload: {
-        type: 'whiteboard-draw',
-        stroke: stroke,
-        userId: currentUserId,
-        userName: currentUserName
+    await saveStoredBoard(conferenceAlias, createBoardFile(whiteboardState.strokes))
+  } catch (e) {
+    console.error('Error saving whiteboard locally:', e)
+  }
+}
+
+// Offers the board this browser had for the conference before a reload
+async function offerRestore() {
+  if (!conferenceAlias || isPersistenceReady) return
+
+  await boardSynced
+
+  let stored: BoardFile | null = null
+  try {
+    stored = await loadStoredBoard(conferenceAlias)
+  } catch (e) {
+    console.error('Error reading saved whiteboard:', e)
+  }
+
+  if (stored && stored.strokes.length > 0) {
+    try {
+      const savedAt = stored.metadata.savedAt ? new Date(stored.metadata.savedAt).toLocaleString() : 'earlier'
+      const choice = await plugin.ui.showPrompt({
+        title: 'Restore whiteboard?',
+        description: `This browser still has the whiteboard from ${savedAt} (${stored.strokes.length} strokes). Restoring it adds what's missing to the board everyone has, nothing gets removed.`,
+        prompt: {
+          primaryAction: 'Restore',
+          secondaryAction: 'Discard'
+        }
+      })
+      if (choice === 'Restore') {
+        restoreBoard(stored)
       }
+    } catch (e) {
+      console.error('Error offering whiteboard restore:', e)
+    }
+  }
+
+  isPersistenceReady = true
+  schedulePersist()
+}
+
+// Brings back a board stored before a reload. The others may have kept
+// drawing in the meantime, so their board stays and only what's missing
+// from it is added, for everyone
+function restoreBoard(board: BoardFile) {
+  const stamp = nextStamp()
+  const added = mergeBoard(board, stamp)
+
+  if (added.length > 0 && canDraw(currentUserId)) {
+    sendMessage({
+      type: 'whiteboard-restore',
+      // Restoring leaves the background alone, no need to send the image
+      board: JSON.stringify({ ...createBoardFile(added), backgroundImage: undefined }),
+      clock: stamp.clock,
+      userId: currentUserId
     })
-  } catch (e) {
-    console.error('Error sending drawing data:', e)
   }
+
+  plugin.ui.showToast({
+    message:
+      added.length > 0
+        ? `Restored ${added.length} strokes${whiteboardState.isActive ? '' : ', open the whiteboard to see them'}`
+        : 'The whiteboard was already up to date',
+    isInterrupt: true
+  })
 }
 
-function clearCanvas() {
-  if (!canvas || !ctx) return
+// Adds the pages and strokes of a board that we've never seen, returns the
+// strokes that were added
+function mergeBoard(board: BoardFile, stamp: Stamp): DrawingStroke[] {
+  const added = board.strokes.filter(stroke => !strokeRecords.has(stroke.id))
+  addStrokes(added, stamp)
 
-  if (isPresentationMode) {
-    // Presentation mode: always transparent
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
-  } else if (isWhiteBackground) {
-    // Whiteboard mode: white background
-    ctx.fillStyle = '#ffffff'
-    ctx.fillRect(0, 0, canvas.width, canvas.height)
+  const pageIds = new Set(getPageOrder().map(page => page.id))
+  const missingPages = board.pages.filter(page => !pageIds.has(page.id))
+  if (missingPages.length > 0) {
+    pagesStamp = stamp
+    applyPages([...getPageOrder(), ...missingPages])
   } else {
-    // Whiteboard mode: transparent
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    rebuildStrokes()
+    redrawCanvas()
   }
-  whiteboardState.strokes = []
+  return added
+}
 
-  // Send clear message to other participants
+// Someone restored a board after a reload. Only strokes and pages we've
+// never seen are added, anything erased, undone or cleared stays gone and
+// pages made since stay too
+function handleRestore(message: { board: string; clock: number }, userId: string) {
   try {
-    plugin.conference.sendApplicationMessage({
-      payload: {
-        type: 'whiteboard-clear',
-        userId: currentUserId
-      }
-    })
+    mergeBoard(parseBoardFile(message.board), getMessageStamp(message, userId))
   } catch (e) {
-    console.error('Error sending clear message:', e)
+    console.error('Error merging restored whiteboard:', e)
   }
 }
 
-function undoLastStroke() {
-  if (!canvas || !ctx || whiteboardState.strokes.length === 0) return
+// Ask the other participants for the current board. Used by late joiners
+// and whenever the overlay opens, since only strokes that arrived while the
+// plugin was running are known locally
+// Resyncs ask the participant whose board differs, everyone else asks
+// whoever answers first
+function requestSnapshot(targetId?: string) {
+  lastSnapshotRequestId = generateId()
 
-  // Remove the last stroke
-  whiteboardState.strokes.pop()
+  sendMessage({
+    type: 'whiteboard-sync-request',
+    requestId: lastSnapshotRequestId,
+    targetId,
+    userId: currentUserId
+  })
+}
 
-  // Redraw the canvas without the last stroke
-  redrawCanvas()
+function scheduleSnapshotReply(requestId: string, targetId: string | undefined) {
+  if (!requestId || pendingSnapshotReplies.has(requestId)) return
+  if (targetId !== undefined && targetId !== currentUserId) return
+
+  // Nothing worth sharing
+  if (strokeRecords.size === 0 && !whiteboardState.isActive) return
+
+  // Wait a random moment, if someone else answers first we stay quiet.
+  // Asked directly, we answer right away
+  const timeout = setTimeout(() => {
+    pendingSnapshotReplies.delete(requestId)
+    sendSnapshot(requestId)
+  }, targetId ? 0 : Math.random() * SNAPSHOT_REPLY_MAX_DELAY)
+  pendingSnapshotReplies.set(requestId, timeout)
+}
+
+function sendSnapshot(requestId: string) {
+  const snapshot: BoardSnapshot = {
+    isActive: whiteboardState.isActive,
+    records: [...strokeRecords.values()],
+    clears: [...clearRecords.values()],
+    permissions: boardPermissions,
+    pages: pageList,
+    pagesStamp,
+    unlistedPages,
+    pageDeletions: [...pageDeletions.values()],
+    activePageId: whiteboardState.activePageId,
+    activePageStamp,
+    background: whiteboardState.background,
+    backgroundStamp,
+    backgroundImageStamp,
+    layers: whiteboardState.layers,
+    clock: getClock()
+  }
+  // Big boards are split into chunks by the outbox
+  sendMessage({
+    type: 'whiteboard-sync-snapshot',
+    requestId,
+    snapshot,
+    userId: currentUserId
+  })
+}
+
+// Someone else is answering this request, no need for us to
+function cancelSnapshotReply(requestId: string) {
+  const pendingReply = pendingSnapshotReplies.get(requestId)
+  if (pendingReply) {
+    clearTimeout(pendingReply)
+    pendingSnapshotReplies.delete(requestId)
+  }
+}
 
-  // Send undo message to other participants
+// A host loaded a saved board, it replaces ours
+function handleLoad(message: { board: string; loadId: string; clock: number }, userId: string) {
   try {
-    plugin.conference.sendApplicationMessage({
-      payload: {
-        type: 'whiteboard-undo',
-        userId: currentUserId
-      }
-    })
+    loadBoardFile(parseBoardFile(message.board), getMessageStamp(message, userId), message.loadId)
+    if (whiteboardState.isActive) {
+      plugin.ui.showToast({
+        message: `${getParticipantName(userId)} loaded a saved whiteboard`,
+        isInterrupt: true
+      })
+    }
   } catch (e) {
-    console.error('Error sending undo message:', e)
+    console.error('Error loading whiteboard file:', e)
   }
 }
 
-function copyToClipboard() {
-  if (!canvas) return
+function handleSnapshot(message: { requestId: string; snapshot: BoardSnapshot }, userId: string) {
+  cancelSnapshotReply(message.requestId)
+  if (message.requestId !== lastSnapshotRequestId) return
 
   try {
-    // Create a temporary canvas to combine background and drawings
-    const tempCanvas = document.createElement('canvas')
-    const tempCtx = tempCanvas.getContext('2d')
-    if (!tempCtx) return
-
-    tempCanvas.width = canvas.width
-    tempCanvas.height = canvas.height
-
-    // Fill background
-    if (isWhiteBackground) {
-      tempCtx.fillStyle = '#ffffff'
-      tempCtx.fillRect(0, 0, tempCanvas.width, tempCanvas.height)
-    }
-
-    // Draw all strokes
-    for (const stroke of whiteboardState.strokes) {
-      if (stroke.points.length === 0) continue
-
-      tempCtx.strokeStyle = stroke.color
-      tempCtx.lineWidth = stroke.width
-      tempCtx.lineCap = 'round'
-      tempCtx.lineJoin = 'round'
-      tempCtx.beginPath()
-      tempCtx.moveTo(stroke.points[0].x, stroke.points[0].y)
-
-      for (let i = 1; i < stroke.points.length; i++) {
-        tempCtx.lineTo(stroke.points[i].x, stroke.points[i].y)
-      }
-      tempCtx.stroke()
-    }
-
-    // Convert to blob
-    tempCanvas.toBlob(async (blob) => {
-      if (blob) {
-        try {
-          // Create a download link as fallback since clipboard doesn't work in iframe lol
-          const url = URL.createObjectURL(blob)
-          const a = document.createElement('a')
-          a.href = url
-          a.download = `whiteboard-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.png`
-          a.style.display = 'none'
-          
-          // Add to parent document and trigger download
-          parent.document.body.appendChild(a)
-          a.click()
-          parent.document.body.removeChild(a)
-          URL.revokeObjectURL(url)
-          
-          plugin.ui.showToast({
-            message: 'Whiteboard downloaded! You can copy the image from your downloads.',
-            isInterrupt: true
-          })
-        } catch (e) {
-          console.error('Error downloading whiteboard:', e)
-          plugin.ui.showToast({
-            message: 'Failed to download whiteboard',
-            isInterrupt: true
-          })
-        }
-      }
-    }, 'image/png')
+    applySnapshot(message.snapshot, userId)
+    markBoardSynced()
   } catch (e) {
-    console.error('Error preparing clipboard copy:', e)
-    plugin.ui.showToast({
-      message: 'Error copying whiteboard',
-      isInterrupt: true
-    })
+    console.error('Error applying snapshot:', e)
   }
 }
 
-function drawUserName(x: number, y: number, userName: string, strokeColor: string) {
-  if (!ctx) return
-  
-  // Save current context state
-  ctx.save()
-  
-  // Set text properties
-  ctx.font = '12px Arial'
-  ctx.fillStyle = strokeColor
-  ctx.strokeStyle = '#ffffff'
-  ctx.lineWidth = 3
-  
-  // Calculate text position (slightly offset from the stroke end)
-  const textX = x + 5
-  const textY = y - 5
-  
-  // Draw text outline for better visibility
-  ctx.strokeText(userName, textX, textY)
-  
-  // Draw text
-  ctx.fillText(userName, textX, textY)
-  
-  // Restore context state
-  ctx.restore()
-}
+// Merges someone's board into ours. Every part is decided by the newest
+// operation either side has seen, so merging in any order gives the same
+// board
+function applySnapshot(board: BoardSnapshot, senderId: string) {
+  const { isActive } = board
+  observeClock(board.clock)
 
-function redrawCanvas() {
-  if (!canvas || !ctx) return
+  // Permissions are only taken from hosts, anyone else could make them up
+  if (isHost(senderId)) {
+    applyPermissions(board.permissions)
+  }
 
-  // Clear with appropriate background
-  if (isPresentationMode) {
-    // Presentation mode: always transparent
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
-  } else if (isWhiteBackground) {
-    // Whiteboard mode: white background
-    ctx.fillStyle = '#ffffff'
-    ctx.fillRect(0, 0, canvas.width, canvas.height)
+  board.records.forEach(mergeRecord)
+  board.clears.forEach(mergeClear)
+  boardRevision++
+
+  if (compareStamps(board.activePageStamp, activePageStamp) > 0) {
+    whiteboardState.activePageId = board.activePageId
+    activePageStamp = board.activePageStamp
+  }
+  setBackground(board.background, board.backgroundStamp)
+  setBackgroundImage(board.background.image, board.backgroundImageStamp)
+  board.layers.forEach(addLayer)
+  board.pageDeletions.forEach(mergePageDeletion)
+  receivePages(board.pages, undefined, board.pagesStamp, board.unlistedPages)
+
+  if (isActive && !whiteboardState.isActive) {
+    whiteboardState.isActive = true
+    createWhiteboardOverlay()
   } else {
-    // Whiteboard mode: transparent
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    redrawCanvas()
   }
+}
 
-  for (const stroke of whiteboardState.strokes) {
-    if (stroke.points.length === 0) continue
+function mergeRecord(remote: StrokeRecord) {
+  const { stroke, fieldStamps } = remote
+  const local = strokeRecords.get(stroke.id)
+  if (!local) {
+    strokeRecords.set(stroke.id, remote)
+    return
+  }
+
+  const order = compareStamps(remote.presenceStamp, local.presenceStamp)
+  if (order > 0 || (order === 0 && !remote.isPresent)) {
+    local.isPresent = remote.isPresent
+    local.presenceStamp = remote.presenceStamp
+  }
 
-    ctx.strokeStyle = stroke.color
-    ctx.lineWidth = stroke.width
-    ctx.beginPath()
-    ctx.moveTo(stroke.points[0].x, stroke.points[0].y)
+  // Replaced as a whole later on their side, by loading a board
+  if (compareStamps(remote.dataStamp, local.dataStamp) > 0) {
+    local.stroke = stroke
+    local.dataStamp = remote.dataStamp
+    local.fieldStamps = fieldStamps
+    return
+  }
 
-    for (let i = 1; i < stroke.points.length; i++) {
-      ctx.lineTo(stroke.points[i].x, stroke.points[i].y)
+  for (const [field, stamp] of Object.entries(fieldStamps)) {
+    if (compareStamps(stamp, local.fieldStamps[field] ?? local.dataStamp) > 0) {
+      ;(local.stroke as unknown as Record<string, unknown>)[field] = (stroke as unknown as Record<string, unknown>)[field]
+      local.fieldStamps[field] = stamp
     }
-    ctx.stroke()
-    
-    // Draw user name only at the very end of the stroke (WIP)
-    if (stroke.points.length > 0) {
-      const lastPoint = stroke.points[stroke.points.length - 1]
-      // Only draw name if this is the last stroke or if it's been more than 2 seconds since the last name
-      const timeSinceLastStroke = Date.now() - stroke.timestamp
-      if (timeSinceLastStroke > 2000 || stroke === whiteboardState.strokes[whiteboardState.strokes.length - 1]) {
-        drawUserName(lastPoint.x, lastPoint.y, stroke.userName, stroke.color)
-      }
+  }
+
+  // Points of a stroke still being drawn have no stamp yet, the longer run
+  // has seen more of them
+  if (!local.fieldStamps.points && !fieldStamps.points && stroke.points.length > local.stroke.points.length) {
+    local.stroke.points = stroke.points
+  }
+}
+
+function mergeClear(remote: ClearRecord) {
+  const local = clearRecords.get(remote.id)
+  if (!local) {
+    clearRecords.set(remote.id, remote)
+  } else if (compareStamps(remote.activeStamp, local.activeStamp) > 0) {
+    local.isActive = remote.isActive
+    local.activeStamp = remote.activeStamp
+  }
+}
+
+// Hash of what's on the board, the same on every participant whose board
+// matches ours. Names are left out, they follow the local roster
+function getBoardChecksum(): string {
+  if (boardChecksum?.revision !== boardRevision) {
+    boardChecksum = { revision: boardRevision, value: computeBoardChecksum() }
+  }
+  return boardChecksum.value
+}
+
+function computeBoardChecksum(): string {
+  return checksum(
+    JSON.stringify({
+      pages: whiteboardState.pages.map(page => page.id),
+      layers: whiteboardState.layers.map(layer => layer.id),
+      background: [whiteboardState.background.isWhite, whiteboardState.background.template, backgroundImageChecksum],
+      strokes: whiteboardState.strokes.map(stroke => [
+        stroke.id,
+        getPageId(stroke),
+        stroke.shape,
+        stroke.text,
+        stroke.note,
+        stroke.color,
+        stroke.width,
+        stroke.points
+      ])
+    })
+  )
+}
+
+function sendChecksum() {
+  // Half drawn strokes would only make boards look different
+  if (isDrawing) return
+
+  sendMessage({
+    type: 'whiteboard-checksum',
+    checksum: getBoardChecksum(),
+    userId: currentUserId
+  })
+}
+
+// Boards differ briefly while operations are on their way. Only when they
+// still differ at the next check do we fetch the other board and merge it,
+// they do the same with ours
+function handleChecksum(checksum: string, userId: string) {
+  if (isDrawing) return
+
+  if (checksum === getBoardChecksum()) {
+    checksumMismatches.delete(userId)
+    return
+  }
+
+  const mismatches = (checksumMismatches.get(userId) ?? 0) + 1
+  if (mismatches < CHECKSUM_MISMATCH_LIMIT) {
+    checksumMismatches.set(userId, mismatches)
+    return
+  }
+
+  checksumMismatches.delete(userId)
+  console.error(`Whiteboard differs from ${getParticipantName(userId)}'s, resyncing`)
+  requestSnapshot(userId)
+}
+
+// Highest protocol version everyone else reads too. Participants we can't
+// talk to at all don't hold the others back
+function getProtocolVersion(): number {
+  let version = PROTOCOL_VERSION
+  for (const protocol of peerProtocols.values()) {
+    if (isCompatible(protocol)) {
+      version = Math.min(version, protocol.maxVersion)
     }
   }
+  return version
+}
+
+function isCompatible(protocol: { minVersion: number; maxVersion: number }): boolean {
+  return protocol.minVersion <= PROTOCOL_VERSION && protocol.maxVersion >= MIN_PROTOCOL_VERSION
+}
+
+// Notes which protocol versions the sender reads and drops messages in a
+// version we don't. Presence looks the same in every version, it's how
+// versions are agreed on, so it always gets through
+function acceptProtocol(message: WhiteboardMessage, userId: string, userName: string): boolean {
+  if (userId === currentUserId) return true
+
+  if ('minVersion' in message) {
+    peerProtocols.set(userId, { minVersion: message.minVersion, maxVersion: message.maxVersion })
+    warnIfIncompatible(userId, userName)
+    return true
+  }
+
+  // Older plugins don't announce anything, they only know what they send
+  if (!peerProtocols.has(userId)) {
+    peerProtocols.set(userId, { minVersion: message.version, maxVersion: message.version })
+  }
+  if (message.version >= MIN_PROTOCOL_VERSION && message.version <= PROTOCOL_VERSION) return true
+
+  console.error(`Dropping ${message.type} from ${userName}, sent in unsupported protocol version ${message.version}`)
+  warnIfIncompatible(userId, userName)
+  return false
+}
+
+function warnIfIncompatible(userId: string, userName: string) {
+  const protocol = peerProtocols.get(userId)
+  if (!protocol || isCompatible(protocol) || incompatiblePeers.has(userId)) return
+
+  incompatiblePeers.add(userId)
+  plugin.ui.showToast({
+    message: `${userName} has a whiteboard version that doesn't work with yours, you won't see each other's changes`,
+    isInterrupt: true
+  })
 }
 
 // Handle incoming application messages
 plugin.events.applicationMessage.add(async (appMessage) => {
-  const message = appMessage.message
-  const userId = (appMessage as any).participantId || (appMessage as any).userId || 'unknown'
-  const userName = (appMessage as any).displayName || message.userName || 'Unknown User'
+  // The sender as reported by the conference, not whatever the payload claims
+  const userId = appMessage.userId || 'unknown'
+  const userName = getParticipantName(userId, appMessage.displayName)
 
   try {
-    // Update current user name if this is own message
-    if (userId === currentUserId && appMessage.displayName) {
-      currentUserName = appMessage.displayName
-    }
-    
-    switch (message.type) {
-      case 'whiteboard-open':
-        if (userId !== currentUserId) {
-          whiteboardState.isActive = true
-          createWhiteboardOverlay()
-          await plugin.ui.showToast({
-            message: `${appMessage.displayName} opened the whiteboard`,
-            isInterrupt: true
-          })
-        }
-        break
+    await receiveMessage(appMessage.message, userId, userName)
+  } catch (e) {
+    console.error('Error handling application message:', e)
+  }
+})
+
+// Anything another participant sends is checked before the board acts on
+// it. What doesn't pass is dropped, it must not break the board
+async function receiveMessage(payload: unknown, userId: string, userName: string) {
+  let message: WhiteboardMessage | null
+  try {
+    message = parseMessage(payload)
+  } catch (e) {
+    console.error(`Dropping a whiteboard message from ${userName}:`, e instanceof Error ? e.message : e)
+    return
+  }
+
+  if (message && acceptProtocol(message, userId, userName)) {
+    await handleApplicationMessage(message, userId, userName)
+  }
+}
+
+async function handleApplicationMessage(message: WhiteboardMessage, userId: string, userName: string) {
+  // Any stroke activity shows the sender as drawing right now
+  if (
+    userId !== currentUserId &&
+    ['whiteboard-stroke-begin', 'whiteboard-stroke-append', 'whiteboard-shape', 'whiteboard-text', 'whiteboard-erase'].includes(message.type)
+  ) {
+    touchPresence(userId, {}, true)
+  }
+
+  switch (message.type) {
+    case 'whiteboard-presence-join':
+    case 'whiteboard-heartbeat':
+    case 'whiteboard-presence-leave':
+    case 'whiteboard-cursor':
+      if (userId !== currentUserId) {
+        handlePresenceMessage(message, userId)
+      }
+      break
+
+    case 'whiteboard-open':
+      if (userId !== currentUserId && canDraw(userId)) {
+        whiteboardState.isActive = true
+        createWhiteboardOverlay()
+        requestSnapshot()
+        await plugin.ui.showToast({
+          message: `${userName} opened the whiteboard`,
+          isInterrupt: true
+        })
+      }
+      break
+
+    case 'whiteboard-close':
+      if (userId !== currentUserId && isHost(userId)) {
+        whiteboardState.isActive = false
+        removeWhiteboardOverlay()
+        await plugin.ui.showToast({
+          message: `${userName} closed the whiteboard`,
+          isInterrupt: true
+        })
+      }
+      break
 
-      case 'whiteboard-close':
-        if (userId !== currentUserId) {
-          whiteboardState.isActive = false
-          removeWhiteboardOverlay()
-          await plugin.ui.showToast({
-            message: `${appMessage.displayName} closed the whiteboard`,
-            isInterrupt: true
-          })
+    case 'whiteboard-stroke-begin':
+      if (userId !== currentUserId && canDraw(userId)) {
+        // It stays on the live layer until it's finished
+        const stroke = receiveStroke(message.stroke, userId, userName, getMessageStamp(message, userId))
+        if (stroke) {
+          liveStrokeIds.add(stroke.id)
         }
-        break
+      }
+      break
 
-      case 'whiteboard-draw':
-        if (userId !== currentUserId && canvas && ctx) {
-          const stroke = message.stroke as DrawingStroke
-          
-          // Ensure stroke has userName
-          if (!stroke.userName) {
-            stroke.userName = userName
-          }
-          
-          // Add stroke to state
-          whiteboardState.strokes.push(stroke)
-          
-          // Draw the stroke
-          ctx.strokeStyle = stroke.color
-          ctx.lineWidth = stroke.width
-          ctx.beginPath()
-          
-          if (stroke.points.length > 0) {
-            ctx.moveTo(stroke.points[0].x, stroke.points[0].y)
-            
-            for (let i = 1; i < stroke.points.length; i++) {
-              ctx.lineTo(stroke.points[i].x, stroke.points[i].y)
-            }
-          }
-          ctx.stroke()
-          
-          // Draw user name only at the very end of the stroke (WIP)
-          if (stroke.points.length > 0) {
-            const lastPoint = stroke.points[stroke.points.length - 1]
-            // Only draw name if this is the last stroke or if it's been more than 2 seconds since the last name
-            const timeSinceLastStroke = Date.now() - stroke.timestamp
-            if (timeSinceLastStroke > 2000 || stroke === whiteboardState.strokes[whiteboardState.strokes.length - 1]) {
-              drawUserName(lastPoint.x, lastPoint.y, stroke.userName, stroke.color)
-            }
-          }
+    case 'whiteboard-shape':
+      if (userId !== currentUserId && canDraw(userId)) {
+        receiveStroke(message.stroke, userId, userName, getMessageStamp(message, userId))
+      }
+      break
+
+    case 'whiteboard-text':
+      if (userId !== currentUserId && canDraw(userId)) {
+        receiveStroke(message.stroke, userId, userName, getMessageStamp(message, userId))
+      }
+      break
+
+    case 'whiteboard-erase':
+      if (userId !== currentUserId && canDraw(userId)) {
+        applyErase(message.removedIds, message.added, getMessageStamp(message, userId))
+      }
+      break
+
+    case 'whiteboard-edit':
+      if (userId !== currentUserId && canDraw(userId)) {
+        applyStrokeChanges(message.changes, false, getMessageStamp(message, userId))
+      }
+      break
+
+    case 'whiteboard-stroke-append':
+      if (userId !== currentUserId && canDraw(userId)) {
+        // Only the author carries on with a stroke
+        const stroke = strokeRecords.get(message.strokeId)?.stroke
+        const { points } = message
+        if (!stroke || stroke.userId !== userId || stroke.shape || points.length === 0) break
+
+        // Continue from the last known point so the segments join up
+        const from = stroke.points.length - 1
+        stroke.points.push(...points)
+        boardRevision++
+        if (findStroke(stroke.id)) {
+          drawStrokeSegment(stroke, from)
         }
-        break
+      }
+      break
 
-      case 'whiteboard-clear':
-        if (userId !== currentUserId) {
-          whiteboardState.strokes = []
-          if (canvas && ctx) {
-            if (isPresentationMode) {
-              // Presentation mode: always transparent
-              ctx.clearRect(0, 0, canvas.width, canvas.height)
-            } else if (isWhiteBackground) {
-              // Whiteboard mode: white background
-              ctx.fillStyle = '#ffffff'
-              ctx.fillRect(0, 0, canvas.width, canvas.height)
-            } else {
-              // Whiteboard mode: transparent
-              ctx.clearRect(0, 0, canvas.width, canvas.height)
-            }
-          }
+    case 'whiteboard-stroke-end':
+      if (userId !== currentUserId && canDraw(userId)) {
+        const stroke = strokeRecords.get(message.strokeId)?.stroke
+        if (!stroke || stroke.userId !== userId || stroke.shape) break
+
+        // Finished, it moves from the live layer into the stroke cache
+        // and gets labelled with its author there
+        liveStrokeIds.delete(stroke.id)
+        redrawCanvas()
+
+        // The sender simplified the stroke, take over its final points
+        const points = message.kept ? pickKeptPoints(stroke.points, message.kept) : message.points
+        if (points.length > 0) {
+          applyStrokeChanges(
+            [{ strokeId: stroke.id, before: {}, after: { points } }],
+            false,
+            getMessageStamp(message, userId)
+          )
         }
-        break
+      }
+      break
+
+    case 'whiteboard-clear':
+      if (userId !== currentUserId && isHost(userId)) {
+        clearStrokes(message.clearId, message.pageId, getMessageStamp(message, userId))
+      }
+      break
+
+    case 'whiteboard-permissions':
+      if (userId !== currentUserId && isHost(userId)) {
+        applyPermissions(message.permissions)
+      }
+      break
+
+    case 'whiteboard-pages':
+      if (userId !== currentUserId && canDraw(userId)) {
+        receivePages(message.pages, message.activePageId, getMessageStamp(message, userId))
+      }
+      break
+
+    case 'whiteboard-page-delete':
+      // Whether a page with strokes really goes is decided with the board,
+      // only hosts can take those away
+      if (userId !== currentUserId && canDraw(userId)) {
+        setPageDeleted(message.pageId, true, getMessageStamp(message, userId))
+      }
+      break
+
+    case 'whiteboard-page-switch':
+      if (userId !== currentUserId && canDraw(userId)) {
+        setActivePage(message.pageId, getMessageStamp(message, userId))
+      }
+      break
+
+    case 'whiteboard-background':
+      if (userId !== currentUserId && canDraw(userId)) {
+        setBackground({ isWhite: message.isWhite, template: message.template }, getMessageStamp(message, userId))
+      }
+      break
+
+    case 'whiteboard-background-image':
+      if (userId !== currentUserId && canDraw(userId)) {
+        setBackgroundImage(message.image, getMessageStamp(message, userId))
+      }
+      break
+
+    case 'whiteboard-layer':
+      if (userId !== currentUserId && canDraw(userId)) {
+        addLayer({ id: message.layerId, title: message.title, stamp: getMessageStamp(message, userId) })
+      }
+      break
+
+    case 'whiteboard-viewport':
+      if (userId !== currentUserId) {
+        receiveViewport(message.viewport, message.isPresenting, userId)
+      }
+      break
+
+    case 'whiteboard-checksum':
+      if (userId !== currentUserId) {
+        handleChecksum(message.checksum, userId)
+      }
+      break
 
-      case 'whiteboard-undo':
-        if (userId !== currentUserId) {
-          whiteboardState.strokes.pop()
-          redrawCanvas()
+    case 'whiteboard-sync-request':
+      if (userId !== currentUserId) {
+        // Snapshots from guests carry no permissions, hosts tell those
+        // catching up whether the board is locked
+        if (isHost(currentUserId)) {
+          sendPermissions()
         }
-        break
+        scheduleSnapshotReply(message.requestId, message.targetId)
+      }
+      break
+
+    case 'whiteboard-sync-snapshot':
+      if (userId !== currentUserId) {
+        handleSnapshot(message, userId)
+      }
+      break
+
+    case 'whiteboard-restore':
+      if (userId !== currentUserId && canDraw(userId)) {
+        handleRestore(message, userId)
+      }
+      break
+
+    case 'whiteboard-load':
+      if (userId !== currentUserId && isHost(userId)) {
+        handleLoad(message, userId)
+      }
+      break
+
+    case CHUNK_TYPE: {
+      if (userId === currentUserId) break
+
+      // The first piece of a snapshot already tells us someone is answering
+      const { head } = message
+      if (head.type === 'whiteboard-sync-snapshot' && typeof head.requestId === 'string') {
+        cancelSnapshotReply(head.requestId)
+      }
+
+      // The payload was written in the version of its pieces
+      const assembled = receiveChunk(userId, message)
+      if (assembled && assembled.type !== CHUNK_TYPE) {
+        await receiveMessage({ ...assembled, version: message.version }, userId, userName)
+      }
+      break
     }
-  } catch (e) {
-    console.error('Error handling application message:', e)
+
+    case 'whiteboard-undo':
+    case 'whiteboard-redo':
+      if (
+        userId !== currentUserId &&
+        canDraw(userId) &&
+        canApplyHistory(message.entry, message.type === 'whiteboard-undo', userId)
+      ) {
+        applyHistoryEntry(
+          message.entry,
+          message.type === 'whiteboard-undo',
+          getMessageStamp(message, userId)
+        )
+      }
+      break
   }
+}
+
+// Late joiners pick up the board as soon as the conference is connected
+plugin.events.connected.add(() => {
+  requestSnapshot()
+  setTimeout(markBoardSynced, RESTORE_SYNC_TIMEOUT)
 })
 
 // Add CSS styles
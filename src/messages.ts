@@ -0,0 +1,591 @@
+// Application messages the whiteboard exchanges, and the checks every
+// received message goes through before the board acts on it. A message
+// from another participant could be anything, so only what's listed here
+// gets through, within the same limits saved files are held to.
+//
+// Protocol versions:
+//   0  messages without a version, from plugins that predate versioning.
+//      Drawing works the same, there are no clocks
+//   1  messages carry their version and operations a logical clock, open
+//      boards compare checksums
+//   2  chunks may carry their data as base64 of the payload's UTF-8 bytes,
+//      pages are deleted by an operation of their own that can be undone,
+//      page lists only add and reorder, finished strokes name the appended
+//      points they keep instead of sending them again
+//
+// A plugin reads every version from MIN_PROTOCOL_VERSION to
+// PROTOCOL_VERSION and announces both with its presence. Everyone sends in
+// the highest version all participants read
+
+import { INITIAL_STAMP, isStamp, type Stamp } from './board-clock'
+import {
+  DEFAULT_BACKGROUND,
+  isBackgroundImage,
+  isBackgroundTemplate,
+  isCssColor,
+  isId,
+  isRecord,
+  isStrokeWidth,
+  MAX_PAGES,
+  MAX_POINTS,
+  MAX_STROKES,
+  MAX_TEXT_LENGTH,
+  parsePoint,
+  parsePoints,
+  parseStroke,
+  type BackgroundTemplate,
+  type BoardBackground,
+  type SavedPoint,
+  type SavedStroke
+} from './board-file'
+import { CHUNK_TYPE } from './outbox'
+
+export const PROTOCOL_VERSION = 2
+export const MIN_PROTOCOL_VERSION = 0
+
+// Points sent in one go while a stroke grows
+const MAX_APPEND_POINTS = 5000
+const MAX_PARTICIPANTS = 1000
+const MAX_CHECKSUM_LENGTH = 64
+
+// Part of the infinite board on screen: the board point at the top left
+// corner of the default view, and how far in we're zoomed
+export interface Viewport {
+  x: number
+  y: number
+  zoom: number
+}
+
+// Stroke fields edits may change, anything else in an edit is ignored
+export const EDITABLE_FIELDS = ['points', 'color', 'width', 'text']
+
+// Fields of a stroke before and after an edit, so it can be undone
+export interface StrokeChange {
+  strokeId: string
+  before: Partial<SavedStroke>
+  after: Partial<SavedStroke>
+}
+
+// An action of the local user that can be undone and redone. Entries refer
+// to strokes by ID so every participant undoes exactly the same thing
+export type HistoryEntry =
+  | { kind: 'stroke'; strokeId: string }
+  | { kind: 'clear'; clearId: string }
+  | { kind: 'edit'; changes: StrokeChange[] }
+  | { kind: 'erase'; removedIds: string[]; addedIds: string[] }
+  // A deleted page
+  | { kind: 'page'; pageId: string }
+
+// Who may draw, managed by hosts. Hosts can always draw, clear and close
+export interface BoardPermissions {
+  isLocked: boolean
+  // Participants allowed to draw while the board is locked
+  granted: string[]
+  // Participants not allowed to draw even while the board is unlocked
+  revoked: string[]
+}
+
+export interface BoardPage {
+  id: string
+}
+
+// Annotations over shared content, one layer per presentation and slide.
+// Strokes on a layer carry its ID as their page. Layers are only ever
+// added, the newest one is what everyone annotates
+export interface AnnotationLayer {
+  id: string
+  title: string
+  stamp: Stamp
+}
+
+// What we know about a stroke, also while it's erased, undone or cleared so
+// a later operation can bring it back. The newest operation wins every
+// conflict, so all participants end up with the same board
+export interface StrokeRecord {
+  stroke: SavedStroke
+  // Set by the newest add or remove
+  isPresent: boolean
+  presenceStamp: Stamp
+  // When the stroke's data was set as a whole and when each field was last
+  // edited. Edits older than either don't apply
+  dataStamp: Stamp
+  fieldStamps: Record<string, Stamp>
+}
+
+// A clear takes the strokes added before it off its page, or off every page
+// for a loaded board. Undo switches it off again
+export interface ClearRecord {
+  id: string
+  pageId: string | null
+  stamp: Stamp
+  isActive: boolean
+  activeStamp: Stamp
+}
+
+// A page taken off the board, or put back by undoing that. The newest one
+// for a page wins. Only a host's deletion takes away a page that has ever
+// been drawn on
+export interface PageDeletion {
+  pageId: string
+  isDeleted: boolean
+  stamp: Stamp
+}
+
+// Everything a late joiner needs to catch up with the board, and everything
+// needed to merge two boards that drifted apart
+export interface BoardSnapshot {
+  isActive: boolean
+  records: StrokeRecord[]
+  clears: ClearRecord[]
+  permissions: BoardPermissions
+  pages: BoardPage[]
+  pagesStamp: Stamp
+  // Pages the newest list doesn't have, they were added at the same time
+  unlistedPages: BoardPage[]
+  pageDeletions: PageDeletion[]
+  activePageId: string
+  activePageStamp: Stamp
+  background: BoardBackground
+  // The image is set apart from the rest of the background
+  backgroundStamp: Stamp
+  backgroundImageStamp: Stamp
+  layers: AnnotationLayer[]
+  clock: number
+}
+
+// A received message as the board uses it. `version` is the protocol it was
+// written in, `clock` the logical clock of an operation (0 from version 0)
+export type WhiteboardMessage = { version: number } & (
+  | { type: 'whiteboard-open' | 'whiteboard-close' }
+  | {
+      type: 'whiteboard-presence-join' | 'whiteboard-heartbeat' | 'whiteboard-presence-leave'
+      pageId: string
+      isDrawing: boolean
+      // Protocol versions the sender reads
+      minVersion: number
+      maxVersion: number
+    }
+  | { type: 'whiteboard-cursor'; point: SavedPoint | null; pageId: string; isDrawing: boolean }
+  | { type: 'whiteboard-stroke-begin' | 'whiteboard-shape' | 'whiteboard-text'; stroke: SavedStroke; clock: number }
+  | { type: 'whiteboard-stroke-append'; strokeId: string; points: SavedPoint[] }
+  | { type: 'whiteboard-stroke-end'; strokeId: string; points: SavedPoint[]; kept: number[] | null; clock: number }
+  | { type: 'whiteboard-erase'; removedIds: string[]; added: SavedStroke[]; clock: number }
+  | { type: 'whiteboard-edit'; changes: StrokeChange[]; clock: number }
+  | { type: 'whiteboard-clear'; clearId: string; pageId: string; clock: number }
+  | { type: 'whiteboard-permissions'; permissions: BoardPermissions }
+  | { type: 'whiteboard-pages'; pages: BoardPage[]; activePageId: string; clock: number }
+  | { type: 'whiteboard-page-switch' | 'whiteboard-page-delete'; pageId: string; clock: number }
+  | { type: 'whiteboard-background'; isWhite: boolean; template: BackgroundTemplate; clock: number }
+  | { type: 'whiteboard-background-image'; image: string | null; clock: number }
+  | { type: 'whiteboard-layer'; layerId: string; title: string; clock: number }
+  | { type: 'whiteboard-viewport'; viewport: Viewport; isPresenting: boolean }
+  | { type: 'whiteboard-checksum'; checksum: string }
+  | { type: 'whiteboard-sync-request'; requestId: string; targetId?: string }
+  | { type: 'whiteboard-sync-snapshot'; requestId: string; snapshot: BoardSnapshot }
+  | { type: 'whiteboard-restore'; board: string; clock: number }
+  | { type: 'whiteboard-load'; board: string; loadId: string; clock: number }
+  | { type: 'whiteboard-undo' | 'whiteboard-redo'; entry: HistoryEntry; clock: number }
+  | {
+      type: typeof CHUNK_TYPE
+      chunkId: string
+      index: number
+      total: number
+      // Small fields of the payload being sent in pieces
+      head: Record<string, unknown>
+      data: string
+      // Raw JSON when missing
+      encoding?: 'base64'
+    }
+)
+
+function fail(reason: string): never {
+  throw new Error(reason)
+}
+
+function readId(value: unknown, name: string): string {
+  return isId(value) ? value : fail(`${name} is missing or invalid`)
+}
+
+function readIds(value: unknown, name: string, max: number): string[] {
+  if (!Array.isArray(value) || value.length > max || !value.every(isId)) {
+    return fail(`${name} is not a valid ID list`)
+  }
+  return value
+}
+
+function readString(value: unknown, name: string, max: number): string {
+  return typeof value === 'string' && value.length <= max ? value : fail(`${name} is missing or too long`)
+}
+
+function readInteger(value: unknown, name: string): number {
+  return Number.isSafeInteger(value) && (value as number) >= 0 ? (value as number) : fail(`${name} is invalid`)
+}
+
+function readStamp(value: unknown, name: string): Stamp {
+  return isStamp(value) && value.clock >= 0 ? { clock: value.clock, userId: value.userId } : fail(`${name} is invalid`)
+}
+
+function readList<T>(value: unknown, name: string, max: number, read: (item: unknown) => T): T[] {
+  if (!Array.isArray(value) || value.length > max) return fail(`${name} is not a valid list`)
+  return value.map(read)
+}
+
+// Version 0 has no clocks, its operations lose every tie
+function readClock(message: Record<string, unknown>, version: number): number {
+  return version === 0 && message.clock === undefined ? 0 : readInteger(message.clock, 'Clock')
+}
+
+function readPage(value: unknown): BoardPage {
+  return { id: readId(isRecord(value) ? value.id : undefined, 'Page') }
+}
+
+function readPages(value: unknown): BoardPage[] {
+  const pages = readList(value, 'Page list', MAX_PAGES, readPage)
+  return pages.length > 0 ? pages : fail('Page list is empty')
+}
+
+// Only the fields an edit may change, each checked like in a stroke
+function readFields(value: unknown): Partial<SavedStroke> {
+  if (!isRecord(value)) return fail('Edit is not an object')
+
+  const fields: Partial<SavedStroke> = {}
+  if (value.points !== undefined) fields.points = parsePoints(value.points, 'Edit')
+  if (value.color !== undefined) fields.color = isCssColor(value.color) ? value.color : fail('Edit has an invalid color')
+  if (value.width !== undefined) fields.width = isStrokeWidth(value.width) ? value.width : fail('Edit has an invalid width')
+  if (value.text !== undefined) fields.text = readString(value.text, 'Edit text', MAX_TEXT_LENGTH)
+  return fields
+}
+
+function readChange(value: unknown): StrokeChange {
+  if (!isRecord(value)) return fail('Change is not an object')
+  return {
+    strokeId: readId(value.strokeId, 'Changed stroke'),
+    before: readFields(value.before),
+    after: readFields(value.after)
+  }
+}
+
+function readHistoryEntry(value: unknown): HistoryEntry {
+  if (!isRecord(value)) return fail('History entry is not an object')
+
+  switch (value.kind) {
+    case 'stroke':
+      return { kind: 'stroke', strokeId: readId(value.strokeId, 'Stroke') }
+    case 'clear':
+      return { kind: 'clear', clearId: readId(value.clearId, 'Clear') }
+    case 'edit':
+      return { kind: 'edit', changes: readList(value.changes, 'Changes', MAX_STROKES, readChange) }
+    case 'erase':
+      return {
+        kind: 'erase',
+        removedIds: readIds(value.removedIds, 'Erased strokes', MAX_STROKES),
+        addedIds: readIds(value.addedIds, 'Erase pieces', MAX_STROKES)
+      }
+    case 'page':
+      return { kind: 'page', pageId: readId(value.pageId, 'Page') }
+    default:
+      return fail('History entry has an unknown kind')
+  }
+}
+
+function readPermissions(value: unknown): BoardPermissions {
+  if (!isRecord(value) || typeof value.isLocked !== 'boolean') return fail('Permissions are invalid')
+  return {
+    isLocked: value.isLocked,
+    granted: readIds(value.granted, 'Granted participants', MAX_PARTICIPANTS),
+    revoked: readIds(value.revoked, 'Revoked participants', MAX_PARTICIPANTS)
+  }
+}
+
+function readViewport(value: unknown): Viewport {
+  if (!isRecord(value)) return fail('Viewport is not an object')
+  const { x, y, zoom } = value
+  if (
+    typeof x !== 'number' ||
+    typeof y !== 'number' ||
+    typeof zoom !== 'number' ||
+    !Number.isFinite(x) ||
+    !Number.isFinite(y) ||
+    !Number.isFinite(zoom) ||
+    zoom <= 0
+  ) {
+    return fail('Viewport is invalid')
+  }
+  return { x, y, zoom }
+}
+
+function readTemplate(value: unknown): BackgroundTemplate {
+  return isBackgroundTemplate(value) ? value : fail('Background template is unknown')
+}
+
+function readBackgroundImage(value: unknown): string | null {
+  return value === null || isBackgroundImage(value) ? value : fail('Background image is invalid')
+}
+
+// Snapshots from before backgrounds were shared have none, any background
+// set since wins over the default
+function readBackground(value: unknown): BoardBackground {
+  if (value === undefined) return { ...DEFAULT_BACKGROUND }
+  if (!isRecord(value) || typeof value.isWhite !== 'boolean') return fail('Background is invalid')
+  return { isWhite: value.isWhite, template: readTemplate(value.template), image: readBackgroundImage(value.image) }
+}
+
+function readLayer(value: unknown): AnnotationLayer {
+  if (!isRecord(value)) return fail('Layer is not an object')
+  return {
+    id: readId(value.id, 'Layer'),
+    title: readString(value.title, 'Layer title', MAX_TEXT_LENGTH),
+    stamp: readStamp(value.stamp, 'Layer stamp')
+  }
+}
+
+function readRecord(value: unknown): StrokeRecord {
+  if (!isRecord(value)) return fail('Snapshot stroke is not an object')
+
+  const fieldStamps: Record<string, Stamp> = {}
+  if (isRecord(value.fieldStamps)) {
+    for (const field of EDITABLE_FIELDS) {
+      const stamp = value.fieldStamps[field]
+      if (stamp !== undefined) {
+        fieldStamps[field] = readStamp(stamp, 'Snapshot field stamp')
+      }
+    }
+  }
+  return {
+    stroke: parseStroke(value.stroke, 'Snapshot stroke'),
+    isPresent: value.isPresent === true,
+    presenceStamp: readStamp(value.presenceStamp, 'Snapshot stroke stamp'),
+    dataStamp: readStamp(value.dataStamp, 'Snapshot stroke stamp'),
+    fieldStamps
+  }
+}
+
+function readClear(value: unknown): ClearRecord {
+  if (!isRecord(value)) return fail('Snapshot clear is not an object')
+  return {
+    id: readId(value.id, 'Snapshot clear'),
+    pageId: value.pageId === null ? null : readId(value.pageId, 'Snapshot clear page'),
+    stamp: readStamp(value.stamp, 'Snapshot clear stamp'),
+    isActive: value.isActive === true,
+    activeStamp: readStamp(value.activeStamp, 'Snapshot clear stamp')
+  }
+}
+
+function readPageDeletion(value: unknown): PageDeletion {
+  if (!isRecord(value)) return fail('Snapshot page deletion is not an object')
+  return {
+    pageId: readId(value.pageId, 'Snapshot deleted page'),
+    isDeleted: value.isDeleted === true,
+    stamp: readStamp(value.stamp, 'Snapshot page deletion stamp')
+  }
+}
+
+function readSnapshot(value: unknown): BoardSnapshot {
+  if (!isRecord(value)) return fail('Snapshot is not an object')
+  return {
+    isActive: value.isActive === true,
+    records: readList(value.records, 'Snapshot strokes', MAX_STROKES, readRecord),
+    clears: readList(value.clears, 'Snapshot clears', MAX_STROKES, readClear),
+    permissions: readPermissions(value.permissions),
+    pages: readPages(value.pages),
+    pagesStamp: readStamp(value.pagesStamp, 'Page list stamp'),
+    unlistedPages:
+      value.unlistedPages === undefined ? [] : readList(value.unlistedPages, 'Unlisted pages', MAX_PAGES, readPage),
+    pageDeletions:
+      value.pageDeletions === undefined ? [] : readList(value.pageDeletions, 'Page deletions', MAX_PAGES, readPageDeletion),
+    activePageId: readId(value.activePageId, 'Active page'),
+    activePageStamp: readStamp(value.activePageStamp, 'Active page stamp'),
+    background: readBackground(value.background),
+    backgroundStamp:
+      value.backgroundStamp === undefined ? INITIAL_STAMP : readStamp(value.backgroundStamp, 'Background stamp'),
+    backgroundImageStamp:
+      value.backgroundImageStamp === undefined
+        ? INITIAL_STAMP
+        : readStamp(value.backgroundImageStamp, 'Background image stamp'),
+    layers: value.layers === undefined ? [] : readList(value.layers, 'Layers', MAX_PAGES, readLayer),
+    clock: readInteger(value.clock, 'Snapshot clock')
+  }
+}
+
+// Checks a received message and copies over only what the board uses.
+// Returns null for messages that aren't the whiteboard's, like those of
+// other plugins, and throws with the reason for whiteboard messages that
+// have to be dropped
+export function parseMessage(value: unknown): WhiteboardMessage | null {
+  if (!isRecord(value) || typeof value.type !== 'string' || !value.type.startsWith('whiteboard-')) {
+    return null
+  }
+
+  const version = value.version === undefined ? 0 : readInteger(value.version, 'Protocol version')
+  const pageId = value.pageId === undefined ? 'default' : readId(value.pageId, 'Page')
+
+  switch (value.type) {
+    case 'whiteboard-open':
+    case 'whiteboard-close':
+      return { type: value.type, version }
+
+    case 'whiteboard-presence-join':
+    case 'whiteboard-heartbeat':
+    case 'whiteboard-presence-leave':
+      return {
+        type: value.type,
+        version,
+        pageId,
+        isDrawing: value.isDrawing === true,
+        minVersion: value.minVersion === undefined ? version : readInteger(value.minVersion, 'Minimum version'),
+        maxVersion: value.maxVersion === undefined ? version : readInteger(value.maxVersion, 'Maximum version')
+      }
+
+    case 'whiteboard-cursor': {
+      const point = value.point === null ? null : parsePoint(value.point)
+      if (point === null && value.point !== null) return fail('Cursor position is invalid')
+      return { type: value.type, version, point, pageId, isDrawing: value.isDrawing === true }
+    }
+
+    case 'whiteboard-stroke-begin':
+    case 'whiteboard-shape':
+    case 'whiteboard-text': {
+      const stroke = parseStroke(value.stroke, 'Stroke')
+      if (value.type === 'whiteboard-shape' && (!stroke.shape || stroke.points.length !== 2)) {
+        return fail('Shape needs a shape and two points')
+      }
+      if (value.type === 'whiteboard-text' && (stroke.text === undefined || stroke.points.length !== 1)) {
+        return fail('Text needs text and one point')
+      }
+      if (value.type === 'whiteboard-stroke-begin' && (stroke.shape || stroke.text !== undefined)) {
+        return fail('Freehand stroke has a shape or text')
+      }
+      return { type: value.type, version, stroke, clock: readClock(value, version) }
+    }
+
+    case 'whiteboard-stroke-append': {
+      const points = parsePoints(value.points, 'Stroke update')
+      if (points.length > MAX_APPEND_POINTS) return fail('Stroke update has too many points')
+      return { type: value.type, version, strokeId: readId(value.strokeId, 'Stroke'), points }
+    }
+
+    case 'whiteboard-stroke-end':
+      return {
+        type: value.type,
+        version,
+        strokeId: readId(value.strokeId, 'Stroke'),
+        points: value.kept === undefined ? parsePoints(value.points, 'Finished stroke') : [],
+        kept:
+          value.kept === undefined
+            ? null
+            : readList(value.kept, 'Kept points', MAX_POINTS, item => readInteger(item, 'Kept point')),
+        clock: readClock(value, version)
+      }
+
+    case 'whiteboard-erase':
+      return {
+        type: value.type,
+        version,
+        removedIds: readIds(value.removedIds, 'Erased strokes', MAX_STROKES),
+        added:
+          value.added === undefined
+            ? []
+            : readList(value.added, 'Erase pieces', MAX_STROKES, piece => parseStroke(piece, 'Erase piece')),
+        clock: readClock(value, version)
+      }
+
+    case 'whiteboard-edit':
+      return { type: value.type, version, changes: readList(value.changes, 'Changes', MAX_STROKES, readChange), clock: readClock(value, version) }
+
+    case 'whiteboard-clear':
+      return { type: value.type, version, clearId: readId(value.clearId, 'Clear'), pageId, clock: readClock(value, version) }
+
+    case 'whiteboard-permissions':
+      return { type: value.type, version, permissions: readPermissions(value.permissions) }
+
+    case 'whiteboard-pages':
+      return {
+        type: value.type,
+        version,
+        pages: readPages(value.pages),
+        activePageId: readId(value.activePageId, 'Active page'),
+        clock: readClock(value, version)
+      }
+
+    case 'whiteboard-page-switch':
+    case 'whiteboard-page-delete':
+      return { type: value.type, version, pageId, clock: readClock(value, version) }
+
+    case 'whiteboard-background':
+      if (typeof value.isWhite !== 'boolean') return fail('Background is invalid')
+      return {
+        type: value.type,
+        version,
+        isWhite: value.isWhite,
+        template: readTemplate(value.template),
+        clock: readClock(value, version)
+      }
+
+    case 'whiteboard-background-image':
+      return { type: value.type, version, image: readBackgroundImage(value.image), clock: readClock(value, version) }
+
+    case 'whiteboard-layer':
+      return {
+        type: value.type,
+        version,
+        layerId: readId(value.layerId, 'Layer'),
+        title: readString(value.title, 'Layer title', MAX_TEXT_LENGTH),
+        clock: readClock(value, version)
+      }
+
+    case 'whiteboard-viewport':
+      return { type: value.type, version, viewport: readViewport(value.viewport), isPresenting: value.isPresenting === true }
+
+    case 'whiteboard-checksum':
+      return { type: value.type, version, checksum: readString(value.checksum, 'Checksum', MAX_CHECKSUM_LENGTH) }
+
+    case 'whiteboard-sync-request':
+      return {
+        type: value.type,
+        version,
+        requestId: readId(value.requestId, 'Request'),
+        targetId: value.targetId === undefined ? undefined : readId(value.targetId, 'Target')
+      }
+
+    case 'whiteboard-sync-snapshot':
+      return {
+        type: value.type,
+        version,
+        requestId: readId(value.requestId, 'Request'),
+        snapshot: readSnapshot(value.snapshot)
+      }
+
+    case 'whiteboard-restore':
+      // The board itself is checked like a saved file when it's used
+      return { type: value.type, version, board: readString(value.board, 'Board', Infinity), clock: readClock(value, version) }
+
+    case 'whiteboard-load':
+      return {
+        type: value.type,
+        version,
+        board: readString(value.board, 'Board', Infinity),
+        loadId: readId(value.loadId, 'Load'),
+        clock: readClock(value, version)
+      }
+
+    case 'whiteboard-undo':
+    case 'whiteboard-redo':
+      return { type: value.type, version, entry: readHistoryEntry(value.entry), clock: readClock(value, version) }
+
+    case CHUNK_TYPE:
+      if (!isRecord(value.head)) return fail('Chunk has no head')
+      return {
+        type: CHUNK_TYPE,
+        version,
+        chunkId: readId(value.chunkId, 'Chunk'),
+        index: readInteger(value.index, 'Chunk index'),
+        total: readInteger(value.total, 'Chunk count'),
+        head: value.head,
+        data: readString(value.data, 'Chunk data', Infinity),
+        encoding: value.encoding === 'base64' ? 'base64' : undefined
+      }
+
+    default:
+      return fail(`Unknown message type ${value.type}`)
+  }
+}
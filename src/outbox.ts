@@ -0,0 +1,299 @@
+// Outgoing application messages. Everything the whiteboard sends goes
+// through here so point updates can be batched, chatty message types
+// throttled and payloads too big for one message split up. Messages go out
+// one at a time and in order, so a stroke's points never overtake its start.
+// The chunks of split up payloads, like board snapshots, go out in between
+// whenever nothing else is waiting, so they don't hold up live drawing
+
+type Payload = Record<string, unknown> & { type: string }
+
+// How chunks carry their piece of the payload: base64 of its UTF-8 bytes,
+// which never needs escaping, or the raw JSON older plugins expect
+export type ChunkEncoding = 'base64' | 'json'
+
+export interface OutboxOptions {
+  send: (payload: Record<string, unknown>) => Promise<unknown>
+  // Called for every message that couldn't be sent
+  onFailure: (type: string, error: unknown) => void
+  // Types whose array field is merged into the previous queued message for
+  // the same key, e.g. points for the same stroke
+  batched: Record<string, { key: string; field: string }>
+  // Types where only the latest message matters, sent at most once per
+  // interval in milliseconds
+  throttled: Record<string, number>
+  // Encoding everyone receiving chunks right now can read
+  chunkEncoding: () => ChunkEncoding
+}
+
+// Message type of the pieces of a split up payload
+export const CHUNK_TYPE = 'whiteboard-chunk'
+// Serialized size in bytes a single message may have, well under what the
+// conference accepts
+export const MESSAGE_SIZE_BUDGET = 16000
+// Batched messages wait this long for more of the same
+const BATCH_INTERVAL = 50
+// Room left in each chunk for the envelope around the data
+const CHUNK_OVERHEAD = 1000
+// Bytes of payload data a chunk carries at most, once serialized
+const CHUNK_DATA_SIZE = MESSAGE_SIZE_BUDGET - CHUNK_OVERHEAD
+// Fields copied onto every chunk so receivers know what's coming early
+const MAX_HEAD_FIELD_LENGTH = 200
+// Give up on payloads whose remaining chunks never arrived
+const CHUNK_TIMEOUT = 60000
+// Payloads in more chunks than this are refused by sender and receivers
+const MAX_CHUNKS = Math.floor(10000000 / CHUNK_DATA_SIZE)
+
+let options: OutboxOptions | null = null
+const queue: Payload[] = []
+// Chunks ready to go, with the type of the payload they're part of
+const chunkQueue: Array<{ chunk: Payload; type: string }> = []
+let isSending = false
+let batchTimer: ReturnType<typeof setTimeout> | null = null
+const latestThrottled = new Map<string, Payload>()
+const throttleTimers = new Map<string, ReturnType<typeof setTimeout>>()
+const lastSentAt = new Map<string, number>()
+let chunkCounter = 0
+const encoder = new TextEncoder()
+
+interface IncomingPayload {
+  chunks: string[]
+  received: number
+  startedAt: number
+}
+// Payloads being reassembled, keyed by sender and chunk ID
+const incoming = new Map<string, IncomingPayload>()
+
+export function configureOutbox(outboxOptions: OutboxOptions) {
+  options = outboxOptions
+}
+
+export function sendMessage(payload: Payload) {
+  if (!options) {
+    console.error(`Outbox not configured, dropping ${payload.type}`)
+    return
+  }
+
+  // Taken as it is now, callers keep changing what they sent, like the
+  // stroke being drawn
+  const message = structuredClone(payload)
+
+  const interval = options.throttled[message.type]
+  if (interval !== undefined) {
+    throttle(message, interval)
+    return
+  }
+
+  const batch = options.batched[message.type]
+  if (batch) {
+    const last = queue[queue.length - 1]
+    const items = message[batch.field]
+    if (
+      last?.type === message.type &&
+      last[batch.key] === message[batch.key] &&
+      Array.isArray(last[batch.field]) &&
+      Array.isArray(items)
+    ) {
+      last[batch.field] = [...(last[batch.field] as unknown[]), ...items]
+    } else {
+      queue.push(message)
+    }
+    if (!batchTimer) {
+      batchTimer = setTimeout(() => {
+        batchTimer = null
+        void drain()
+      }, BATCH_INTERVAL)
+    }
+    return
+  }
+
+  // Anything else goes out right away, after what's already queued
+  queue.push(message)
+  void drain()
+}
+
+function throttle(payload: Payload, interval: number) {
+  latestThrottled.set(payload.type, payload)
+  if (throttleTimers.has(payload.type)) return
+
+  const wait = Math.max(0, interval - (Date.now() - (lastSentAt.get(payload.type) ?? 0)))
+  throttleTimers.set(
+    payload.type,
+    setTimeout(() => {
+      throttleTimers.delete(payload.type)
+      const latest = latestThrottled.get(payload.type)
+      latestThrottled.delete(payload.type)
+      if (!latest) return
+
+      lastSentAt.set(payload.type, Date.now())
+      queue.push(latest)
+      void drain()
+    }, wait)
+  )
+}
+
+async function drain() {
+  if (isSending) return
+
+  isSending = true
+  try {
+    // Batched messages keep growing at the end of the queue while earlier
+    // ones are on their way. Chunks only go when nothing else is waiting
+    while (queue.length > 0 || chunkQueue.length > 0) {
+      const payload = queue.shift()
+      if (payload) {
+        await transmit(payload)
+        continue
+      }
+
+      const next = chunkQueue.shift()
+      if (next && !(await deliver(next.chunk, next.type))) {
+        // The rest is useless without this one
+        dropChunks(next.chunk.chunkId)
+      }
+    }
+  } finally {
+    isSending = false
+  }
+}
+
+async function transmit(payload: Payload) {
+  const data = JSON.stringify(payload)
+  if (encoder.encode(data).length <= MESSAGE_SIZE_BUDGET) {
+    await deliver(payload, payload.type)
+    return
+  }
+  if (!options) return
+
+  const encoding = options.chunkEncoding()
+  const pieces = splitData(encoding === 'base64' ? toBase64(encoder.encode(data)) : data)
+  if (pieces.length > MAX_CHUNKS) {
+    options.onFailure(payload.type, new Error(`Message too big to send (${pieces.length} chunks)`))
+    return
+  }
+
+  // Small fields like the type and IDs ride along with every chunk
+  const head: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(payload)) {
+    if (typeof value === 'number' || typeof value === 'boolean' || (typeof value === 'string' && value.length <= MAX_HEAD_FIELD_LENGTH)) {
+      head[key] = value
+    }
+  }
+
+  const chunkId = `${Date.now().toString(36)}-${(chunkCounter++).toString(36)}`
+  pieces.forEach((piece, index) => {
+    const chunk: Payload = {
+      type: CHUNK_TYPE,
+      chunkId,
+      index,
+      total: pieces.length,
+      head,
+      data: piece,
+      userId: payload.userId
+    }
+    // Older plugins only know raw JSON chunks, which have no encoding
+    if (encoding === 'base64') {
+      chunk.encoding = encoding
+    }
+    chunkQueue.push({ chunk, type: payload.type })
+  })
+}
+
+function dropChunks(chunkId: unknown) {
+  for (let i = chunkQueue.length - 1; i >= 0; i--) {
+    if (chunkQueue[i].chunk.chunkId === chunkId) {
+      chunkQueue.splice(i, 1)
+    }
+  }
+}
+
+// Cuts data into pieces of at most CHUNK_DATA_SIZE bytes as they end up in
+// a message. Base64 is ASCII without anything to escape, raw JSON pieces
+// are cut shorter until their escaped form fits
+function splitData(data: string): string[] {
+  const pieces: string[] = []
+  let start = 0
+  while (start < data.length) {
+    let end = Math.min(data.length, start + CHUNK_DATA_SIZE)
+    while (end - start > 1 && getEscapedSize(data.slice(start, end)) > CHUNK_DATA_SIZE) {
+      end = start + Math.floor((end - start) * 0.9)
+    }
+    pieces.push(data.slice(start, end))
+    start = end
+  }
+  return pieces
+}
+
+// Bytes a string takes up inside a JSON message, without its quotes
+function getEscapedSize(text: string): number {
+  return encoder.encode(JSON.stringify(text)).length - 2
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  // Spreading all of a big payload at once overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(data: string): string {
+  return new TextDecoder().decode(Uint8Array.from(atob(data), char => char.charCodeAt(0)))
+}
+
+async function deliver(payload: Record<string, unknown>, type: string): Promise<boolean> {
+  try {
+    await options?.send(payload)
+    return true
+  } catch (e) {
+    options?.onFailure(type, e)
+    return false
+  }
+}
+
+// Collects one chunk, returns the original payload once all of its chunks
+// are in and null until then
+export function receiveChunk(senderId: string, message: Record<string, unknown>): Record<string, unknown> | null {
+  const { chunkId, index, total, data, encoding } = message
+  if (typeof chunkId !== 'string' || typeof data !== 'string') return null
+  if (!Number.isInteger(index) || !Number.isInteger(total)) return null
+  if ((index as number) < 0 || (index as number) >= (total as number)) return null
+  if ((total as number) > MAX_CHUNKS) {
+    // Once per payload is enough
+    if (index === 0) {
+      console.error(`Dropping a message from ${senderId} in ${total} chunks, more than the ${MAX_CHUNKS} allowed`)
+    }
+    return null
+  }
+
+  // Drop payloads that stalled, their sender probably left
+  const now = Date.now()
+  for (const [key, payload] of incoming) {
+    if (now - payload.startedAt > CHUNK_TIMEOUT) {
+      incoming.delete(key)
+    }
+  }
+
+  const key = `${senderId}:${chunkId}`
+  let payload = incoming.get(key)
+  if (!payload) {
+    payload = { chunks: new Array<string>(total as number), received: 0, startedAt: now }
+    incoming.set(key, payload)
+  }
+  if (payload.chunks.length !== total) return null
+  if (payload.chunks[index as number] === undefined) {
+    payload.chunks[index as number] = data
+    payload.received++
+  }
+  if (payload.received < payload.chunks.length) return null
+
+  incoming.delete(key)
+  try {
+    const joined = payload.chunks.join('')
+    const assembled: unknown = JSON.parse(encoding === 'base64' ? fromBase64(joined) : joined)
+    return typeof assembled === 'object' && assembled !== null ? (assembled as Record<string, unknown>) : null
+  } catch (e) {
+    console.error('Dropping unreadable chunked message:', e)
+    return null
+  }
+}
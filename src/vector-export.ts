@@ -0,0 +1,273 @@
+// Builds SVG and PDF documents from already laid out drawing items. Sizes
+// and coordinates are in page units with the origin at the top left
+
+import type { Point } from './geometry'
+
+export type VectorItem =
+  | {
+      kind: 'path'
+      points: Point[]
+      color: string
+      width: number
+    }
+  | {
+      kind: 'fill'
+      x: number
+      y: number
+      width: number
+      height: number
+      color: string
+    }
+  | {
+      kind: 'text'
+      // Left end of the first line's baseline
+      x: number
+      y: number
+      lines: string[]
+      fontSize: number
+      color: string
+      // Halo drawn behind the text so it stays readable on any background
+      outline?: string
+    }
+  | {
+      kind: 'image'
+      x: number
+      y: number
+      width: number
+      height: number
+      // Base64 JPEG, the one image format PDF takes as it is
+      jpeg: string
+      pixelWidth: number
+      pixelHeight: number
+    }
+
+export interface VectorPage {
+  width: number
+  height: number
+  background: string | null
+  items: VectorItem[]
+}
+
+// Line height relative to the font size, same as the canvas renderer
+export const LINE_HEIGHT = 1.25
+
+// Largest page side a PDF viewer has to accept
+const PDF_MAX_PAGE_SIZE = 14400
+
+function round(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export function buildSvg(page: VectorPage): string {
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(page.width)}" height="${round(page.height)}" viewBox="0 0 ${round(page.width)} ${round(page.height)}">`
+  ]
+
+  if (page.background) {
+    parts.push(`<rect width="100%" height="100%" fill="${escapeXml(page.background)}"/>`)
+  }
+
+  for (const item of page.items) {
+    switch (item.kind) {
+      case 'path': {
+        if (item.points.length === 0) break
+        // A single point still gets a segment so the round cap draws a dot
+        const points = item.points.length === 1 ? [item.points[0], item.points[0]] : item.points
+        const d = points
+          .map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x)} ${round(p.y)}`)
+          .join(' ')
+        parts.push(
+          `<path d="${d}" fill="none" stroke="${escapeXml(item.color)}" stroke-width="${round(item.width)}" stroke-linecap="round" stroke-linejoin="round"/>`
+        )
+        break
+      }
+
+      case 'fill':
+        parts.push(
+          `<rect x="${round(item.x)}" y="${round(item.y)}" width="${round(item.width)}" height="${round(item.height)}" fill="${escapeXml(item.color)}"/>`
+        )
+        break
+
+      case 'text': {
+        const outline = item.outline
+          ? ` stroke="${escapeXml(item.outline)}" stroke-width="3" stroke-linejoin="round" paint-order="stroke"`
+          : ''
+        const lines = item.lines.map(
+          (line, i) =>
+            `<tspan x="${round(item.x)}" y="${round(item.y + i * item.fontSize * LINE_HEIGHT)}">${escapeXml(line)}</tspan>`
+        )
+        parts.push(
+          `<text font-family="Arial, Helvetica, sans-serif" font-size="${round(item.fontSize)}" fill="${escapeXml(item.color)}"${outline} xml:space="preserve">${lines.join('')}</text>`
+        )
+        break
+      }
+
+      case 'image':
+        parts.push(
+          `<image x="${round(item.x)}" y="${round(item.y)}" width="${round(item.width)}" height="${round(item.height)}" preserveAspectRatio="none" href="data:image/jpeg;base64,${item.jpeg}"/>`
+        )
+        break
+    }
+  }
+
+  parts.push('</svg>')
+  return parts.join('\n')
+}
+
+// Accepts the hex colors the palette produces, anything else ends up black
+function toPdfColor(color: string): string {
+  let hex = color.trim().replace(/^#/, '')
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    hex = hex.split('').map(c => c + c).join('')
+  }
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return '0 0 0'
+
+  return [0, 2, 4]
+    .map(i => round(parseInt(hex.slice(i, i + 2), 16) / 255))
+    .join(' ')
+}
+
+// PDF string literal for the standard Helvetica font. Characters outside
+// Latin-1 have no glyph there and become question marks
+function toPdfString(text: string): string {
+  let result = ''
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63
+    if (char === '(' || char === ')' || char === '\\') {
+      result += '\\' + char
+    } else if (code >= 32 && code < 127) {
+      result += char
+    } else if (code >= 160 && code <= 255) {
+      // Octal escapes keep the file plain ASCII so offsets are easy to count
+      result += '\\' + code.toString(8).padStart(3, '0')
+    } else {
+      result += '?'
+    }
+  }
+  return `(${result})`
+}
+
+// Images are named by their index among all images of the document, the
+// first one on this page being `firstImage`
+function buildPdfContent(page: VectorPage, scale: number, firstImage: number): string {
+  let image = firstImage
+  const ops: string[] = []
+  // Flip the y axis so items keep their top-left origin
+  ops.push(`${round(scale)} 0 0 ${round(-scale)} 0 ${round(page.height * scale)} cm`)
+
+  if (page.background) {
+    ops.push(`${toPdfColor(page.background)} rg 0 0 ${round(page.width)} ${round(page.height)} re f`)
+  }
+
+  ops.push('1 J 1 j')
+  for (const item of page.items) {
+    switch (item.kind) {
+      case 'path': {
+        if (item.points.length === 0) break
+        const [first, ...rest] = item.points
+        ops.push(`${toPdfColor(item.color)} RG ${round(item.width)} w`)
+        ops.push(`${round(first.x)} ${round(first.y)} m`)
+        for (const p of rest.length > 0 ? rest : [first]) {
+          ops.push(`${round(p.x)} ${round(p.y)} l`)
+        }
+        ops.push('S')
+        break
+      }
+
+      case 'fill':
+        ops.push(
+          `${toPdfColor(item.color)} rg ${round(item.x)} ${round(item.y)} ${round(item.width)} ${round(item.height)} re f`
+        )
+        break
+
+      case 'text':
+        // Halo first, then the text on top
+        for (const mode of item.outline ? ['outline', 'fill'] : ['fill']) {
+          ops.push('BT')
+          ops.push(`/F1 ${round(item.fontSize)} Tf`)
+          if (mode === 'outline') {
+            ops.push(`${toPdfColor(item.outline ?? '#ffffff')} RG 3 w 1 Tr`)
+          } else {
+            ops.push(`${toPdfColor(item.color)} rg 0 Tr`)
+          }
+          item.lines.forEach((line, i) => {
+            // Undo the flip for glyphs, they'd be upside down otherwise
+            const y = item.y + i * item.fontSize * LINE_HEIGHT
+            ops.push(`1 0 0 -1 ${round(item.x)} ${round(y)} Tm ${toPdfString(line)} Tj`)
+          })
+          ops.push('ET')
+        }
+        break
+
+      case 'image':
+        // Image space has its origin at the bottom left, flip it back
+        ops.push(
+          `q ${round(item.width)} 0 0 ${round(-item.height)} ${round(item.x)} ${round(item.y + item.height)} cm /Im${image++} Do Q`
+        )
+        break
+    }
+  }
+
+  return ops.join('\n')
+}
+
+// One PDF page per board page, with paths kept as vectors, text set in
+// Helvetica and images embedded as JPEG
+export function buildPdf(pages: VectorPage[]): Blob {
+  const objects: string[] = []
+  // Catalog, page tree and font come first, then a page and its content
+  // stream for every board page, then the images
+  const pageRefs = pages.map((_, i) => `${4 + i * 2} 0 R`)
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>')
+  objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`)
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+
+  const images: string[] = []
+  pages.forEach((page, i) => {
+    const scale = Math.min(1, PDF_MAX_PAGE_SIZE / page.width, PDF_MAX_PAGE_SIZE / page.height)
+    const content = buildPdfContent(page, scale, images.length)
+
+    const imageRefs: string[] = []
+    for (const item of page.items) {
+      if (item.kind !== 'image') continue
+      // Decoded to one character per byte, which is how the file is written
+      const data = atob(item.jpeg)
+      imageRefs.push(`/Im${images.length} ${4 + pages.length * 2 + images.length} 0 R`)
+      images.push(
+        `<< /Type /XObject /Subtype /Image /Width ${item.pixelWidth} /Height ${item.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${data.length} >>\nstream\n${data}\nendstream`
+      )
+    }
+
+    const xObjects = imageRefs.length > 0 ? ` /XObject << ${imageRefs.join(' ')} >>` : ''
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${round(page.width * scale)} ${round(page.height * scale)}] /Resources << /Font << /F1 3 0 R >>${xObjects} >> /Contents ${5 + i * 2} 0 R >>`
+    )
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+  })
+  objects.push(...images)
+
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((object, i) => {
+    offsets.push(pdf.length)
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`
+  })
+
+  const xrefOffset = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  for (const offset of offsets) {
+    pdf += `${String(offset).padStart(10, '0')} 00000 n \n`
+  }
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  // Every character stands for one byte, image data included
+  return new Blob([Uint8Array.from(pdf, char => char.charCodeAt(0))], { type: 'application/pdf' })
+}